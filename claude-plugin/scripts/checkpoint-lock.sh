@@ -0,0 +1,101 @@
+#!/bin/bash
+
+# シャドウリポジトリのアドバイザリロック（VSCode拡張機能・OpenCodeプラグインと共通のプロトコル）
+#
+#   $SHADOW_REPO/.lock/        mkdir で作成できたクライアントだけがロックを保持する
+#   $SHADOW_REPO/.lock/owner   "pid=" "host=" "client=" "created=<UNIX秒>" の行
+#
+# 同じホストでは pid のプロセスが終了している場合だけ、別のホストでは作成から10分以上経過した場合に古いロックとみなす
+# 使い方: source してから SHADOW_REPO を設定し、acquire_checkpoint_lock / release_checkpoint_lock を呼ぶ
+
+CHECKPOINT_LOCK_STALE_SECONDS=600
+CHECKPOINT_LOCK_ACQUIRED=0
+
+get_mtime() {
+  if [ "$(uname)" = "Darwin" ]; then
+    stat -f %m "$1" 2>/dev/null || echo 0
+  else
+    stat -c %Y "$1" 2>/dev/null || echo 0
+  fi
+}
+
+read_lock_field() {
+  sed -n "s/^$1=//p" "$SHADOW_REPO/.lock/owner" 2>/dev/null | head -n 1
+}
+
+# ロックディレクトリを識別する値（inode と owner の内容）
+lock_identity() {
+  echo "$(ls -di "$1" 2>/dev/null | awk '{print $1}'):$(cat "$1/owner" 2>/dev/null)"
+}
+
+is_checkpoint_lock_stale() {
+  local lock_dir="$SHADOW_REPO/.lock"
+  local now
+  now=$(date +%s)
+
+  local pid host created
+  pid=$(read_lock_field pid)
+  host=$(read_lock_field host)
+  created=$(read_lock_field created)
+
+  if [ -z "$pid" ] || [ -z "$created" ]; then
+    # 作成直後で owner が未書き込みの可能性があるため、ディレクトリの更新時刻で判断
+    [ -d "$lock_dir" ] && [ $((now - $(get_mtime "$lock_dir"))) -gt 5 ]
+    return
+  fi
+
+  # 同じホストなら生存確認だけで判断する（長い処理の途中で奪わないよう、経過時間は見ない）
+  if [ "$host" = "$HOSTNAME" ]; then
+    ! kill -0 "$pid" 2>/dev/null
+    return
+  fi
+  [ $((now - created)) -gt "$CHECKPOINT_LOCK_STALE_SECONDS" ]
+}
+
+# ロックを取得する（$1: クライアント名, $2: 最大待機秒数）
+acquire_checkpoint_lock() {
+  local client="$1"
+  local max_wait="${2:-10}"
+  local lock_dir="$SHADOW_REPO/.lock"
+  local i=0
+
+  mkdir -p "$SHADOW_REPO" || return 1
+  while ! mkdir "$lock_dir" 2>/dev/null; do
+    local stale_identity
+    stale_identity=$(lock_identity "$lock_dir")
+    if is_checkpoint_lock_stale; then
+      # リネームしてから削除し、同時に古いロックを見つけたクライアントと新しいロックを消し合わない
+      # 判定後に別のクライアントが取得し直していた場合は、リネームしたロックを元に戻す
+      local stale_dir="$lock_dir.stale-$$-$(date +%s)"
+      if mv "$lock_dir" "$stale_dir" 2>/dev/null; then
+        if [ "$(lock_identity "$stale_dir")" = "$stale_identity" ]; then
+          rm -rf "$stale_dir"
+        elif [ -e "$lock_dir" ] || ! mv "$stale_dir" "$lock_dir" 2>/dev/null; then
+          # 既に別のクライアントが新しいロックを取得しているので、奪ってしまったロックは戻せない
+          rm -rf "$stale_dir"
+        fi
+      fi
+      continue
+    fi
+    i=$((i + 1))
+    if [ "$i" -ge $((max_wait * 10)) ]; then
+      return 1
+    fi
+    sleep 0.1
+  done
+
+  printf 'pid=%s\nhost=%s\nclient=%s\ncreated=%s\n' "$$" "$HOSTNAME" "$client" "$(date +%s)" > "$lock_dir/owner"
+  CHECKPOINT_LOCK_ACQUIRED=1
+
+  # ロック保持中に残っている Git のロックファイルはクラッシュしたクライアントのもの
+  rm -f "$SHADOW_REPO/.git/index.lock" "$SHADOW_REPO/.git/HEAD.lock" 2>/dev/null
+  return 0
+}
+
+release_checkpoint_lock() {
+  # 古いと判定されて他のクライアントに奪われていた場合は消さない
+  if [ "$CHECKPOINT_LOCK_ACQUIRED" = "1" ] && [ "$(read_lock_field pid)" = "$$" ]; then
+    rm -rf "$SHADOW_REPO/.lock"
+  fi
+  CHECKPOINT_LOCK_ACQUIRED=0
+}
@@ -21,28 +21,55 @@ if [ ! -d "$SHADOW_REPO/.git" ]; then
   exit 0
 fi
 
-# .deletedファイルを読み込む
+# メタデータを "id<TAB>deleted<TAB>name" 形式の行に変換する
+# .metadata.json（version 1）を優先し、未移行の場合は旧形式の .deleted / .renamed を読む
+METADATA_FILE="$SHADOW_REPO/.metadata.json"
 DELETED_FILE="$SHADOW_REPO/.deleted"
-
-# .renamedファイルを読み込む
 RENAMED_FILE="$SHADOW_REPO/.renamed"
 
+load_metadata() {
+  if [ -f "$METADATA_FILE" ]; then
+    if command -v jq >/dev/null 2>&1; then
+      jq -r '(.snapshots // {}) | to_entries[] | "\(.key)\t\(if .value.deleted then 1 else 0 end)\t\(.value.name // "")"' \
+        "$METADATA_FILE" 2>/dev/null
+      return
+    fi
+    if command -v python3 >/dev/null 2>&1; then
+      python3 - "$METADATA_FILE" <<'PYEOF' 2>/dev/null
+import json, sys
+with open(sys.argv[1], encoding="utf-8") as f:
+    snapshots = json.load(f).get("snapshots") or {}
+for snapshot_id, record in snapshots.items():
+    print("%s\t%d\t%s" % (snapshot_id, 1 if record.get("deleted") else 0, record.get("name") or ""))
+PYEOF
+      return
+    fi
+  fi
+
+  if [ -f "$DELETED_FILE" ]; then
+    while IFS= read -r deleted_id; do
+      [ -n "$deleted_id" ] && printf '%s\t1\t\n' "$deleted_id"
+    done < "$DELETED_FILE"
+  fi
+  if [ -f "$RENAMED_FILE" ]; then
+    while IFS=$'\t' read -r renamed_id renamed_name; do
+      [ -n "$renamed_id" ] && printf '%s\t0\t%s\n' "$renamed_id" "$renamed_name"
+    done < "$RENAMED_FILE"
+  fi
+}
+
+METADATA=$(load_metadata)
+
 # 削除済みIDかチェックする関数
 is_deleted() {
   local check_id="$1"
-  if [ -f "$DELETED_FILE" ]; then
-    grep -q "^${check_id}$" "$DELETED_FILE" 2>/dev/null
-    return $?
-  fi
-  return 1
+  echo "$METADATA" | grep -q "^${check_id}	1	"
 }
 
 # カスタム名を取得する関数
 get_custom_name() {
   local check_id="$1"
-  if [ -f "$RENAMED_FILE" ]; then
-    grep "^${check_id}	" "$RENAMED_FILE" 2>/dev/null | cut -f2
-  fi
+  echo "$METADATA" | grep "^${check_id}	" | cut -f3 | grep -v '^$' | head -n 1
 }
 
 # チェックポイント一覧を取得
@@ -52,6 +79,7 @@ echo ""
 cd "$SHADOW_REPO"
 COUNT=0
 
+# 拡張機能と同じく、本線と復元したスナップショットだけを一覧にする（安全用・Git 操作用の ref は含めない）
 while IFS= read -r line; do
   # 形式: "abc1234 commit message"
   ID=$(echo "$line" | cut -d' ' -f1)
@@ -76,7 +104,7 @@ while IFS= read -r line; do
   DATE=$(git log -1 --format="%ci" "$ID" 2>/dev/null | cut -d' ' -f1,2)
 
   echo "$COUNT) $ID - $DISPLAY_NAME ($DATE)"
-done < <(git log --oneline --all 2>/dev/null)
+done < <(git log --oneline HEAD --glob=refs/recovered 2>/dev/null)
 
 if [ "$COUNT" -eq 0 ]; then
   echo "No checkpoints found."
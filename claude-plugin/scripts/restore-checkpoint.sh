@@ -2,12 +2,21 @@
 
 if [ -z "$1" ]; then
   echo "Error: Checkpoint ID is required"
-  echo "Usage: restore-checkpoint.sh <checkpoint-id>"
+  echo "Usage: restore-checkpoint.sh <checkpoint-id> [exact|overlay]"
   exit 1
 fi
 
 CHECKPOINT_ID="$1"
 
+# 復元モード（VSCode拡張機能・OpenCodeプラグインと同じく既定は exact）
+#   exact:   スナップショットと完全に一致させ、後から作られたファイルは削除する
+#   overlay: スナップショットのファイルだけを書き戻し、それ以外のファイルは残す
+RESTORE_MODE="${2:-exact}"
+if [ "$RESTORE_MODE" != "exact" ] && [ "$RESTORE_MODE" != "overlay" ]; then
+  echo "Error: Unknown restore mode '$RESTORE_MODE' (expected exact or overlay)"
+  exit 1
+fi
+
 # シャドウリポジトリのパスを計算
 WORKSPACE_ROOT=$(git rev-parse --show-toplevel 2>/dev/null)
 if [ -z "$WORKSPACE_ROOT" ]; then
@@ -42,15 +51,95 @@ COMMIT_DATE=$(git log -1 --format="%ci" "$CHECKPOINT_ID" 2>/dev/null)
 echo "Restoring checkpoint: $CHECKPOINT_ID"
 echo "  Message: $COMMIT_MSG"
 echo "  Date: $COMMIT_DATE"
+echo "  Mode: $RESTORE_MODE"
+
+# 部分チェックポイントは Scope トレーラーのパスの中だけを戻す
+SCOPE_PATHS=()
+SCOPE_PATHSPECS=()
+while IFS= read -r SCOPE_PATH; do
+  if [ -n "$SCOPE_PATH" ]; then
+    echo "  Scope: $SCOPE_PATH"
+    SCOPE_PATHS+=("$SCOPE_PATH")
+    SCOPE_PATHSPECS+=(":(top,literal)$SCOPE_PATH")
+  fi
+done < <(git log -1 --format="%B" "$CHECKPOINT_ID" | sed -n 's/^Scope: //p')
 echo ""
 
-# 復元を実行
-# core.worktreeが設定されているので、直接checkoutできる
-git checkout "$CHECKPOINT_ID" -- . 2>&1
+# チェックポイントのブランチ（Branch トレーラー、古い形式では "<branch> @ <date>"）
+TARGET_BRANCH=$(git log -1 --format="%B" "$CHECKPOINT_ID" | sed -n 's/^Branch: //p' | head -n 1)
+if [ -z "$TARGET_BRANCH" ]; then
+  TARGET_BRANCH=$(echo "$COMMIT_MSG" | sed -n 's/^\(.*\) @ .*$/\1/p')
+fi
+TARGET_BRANCH=$(echo "${TARGET_BRANCH:-unknown}" | sed -E 's/^\[(Claude|OpenCode)\] *//')
+SHORT_ID=$(git rev-parse --short=7 "$CHECKPOINT_ID")
+
+# 拡張機能・OpenCodeプラグインと共通のアドバイザリロックを取得してから復元する
+source "$(dirname "${BASH_SOURCE[0]}")/checkpoint-lock.sh"
+if ! acquire_checkpoint_lock "claude" 30; then
+  echo "Error: Checkpoints repository is in use by another client (pid $(read_lock_field pid)). Please try again."
+  exit 1
+fi
+trap release_checkpoint_lock EXIT
 
-if [ $? -eq 0 ]; then
-  echo "Successfully restored checkpoint: $CHECKPOINT_ID"
+# 拡張機能と同じく、復元前のワークスペースを安全用スナップショットとして refs/safety/ に残す
+# （拡張機能の Undo Last Restore/Delete で元に戻せる）
+SAFETY_INDEX="$SHADOW_REPO/.git/index.safety-$$"
+cp "$SHADOW_REPO/.git/index" "$SAFETY_INDEX" 2>/dev/null
+SAFETY_TREE=$(GIT_INDEX_FILE="$SAFETY_INDEX" git add -A > /dev/null 2>&1 && GIT_INDEX_FILE="$SAFETY_INDEX" git write-tree 2>/dev/null)
+rm -f "$SAFETY_INDEX"
+if [ -z "$SAFETY_TREE" ]; then
+  echo "Error: Failed to save the workspace before restoring"
+  exit 1
+fi
+CURRENT_BRANCH=$(git -C "$WORKSPACE_ROOT" rev-parse --abbrev-ref HEAD 2>/dev/null || echo "unknown")
+SAFETY_MESSAGE=$(
+  printf 'Safety: Before restoring "%s"\n\nBranch: %s\nSafety-Action: restore' "$COMMIT_MSG" "$CURRENT_BRANCH"
+  for SCOPE_PATH in "${SCOPE_PATHS[@]}"; do
+    printf '\nSafety-Path: %s' "$SCOPE_PATH"
+  done
+)
+SAFETY_COMMIT=$(git commit-tree "$SAFETY_TREE" -m "$SAFETY_MESSAGE") &&
+  git update-ref "refs/safety/$(($(date +%s) * 1000))-${SAFETY_COMMIT:0:7}" "$SAFETY_COMMIT"
+# 拡張機能と同じく、新しいものから 20 件だけ残す
+git for-each-ref --sort=-refname --format='%(refname)' refs/safety/ | tail -n +21 |
+  while IFS= read -r SAFETY_REF; do
+    git update-ref -d "$SAFETY_REF"
+  done
+
+# 復元を実行
+# core.worktreeが設定されているので、直接ワークスペースを書き換えられる
+if [ ${#SCOPE_PATHSPECS[@]} -gt 0 ]; then
+  if [ "$RESTORE_MODE" = "exact" ]; then
+    # 対象パスの現在の状態をステージし、チェックポイントに無いファイルだけを削除する
+    git add -A -- "${SCOPE_PATHSPECS[@]}" > /dev/null 2>&1
+    git diff --cached --name-only --diff-filter=A -z "$CHECKPOINT_ID" -- "${SCOPE_PATHSPECS[@]}" |
+      while IFS= read -r -d '' EXTRA_FILE; do
+        rm -f "$WORKSPACE_ROOT/$EXTRA_FILE"
+      done
+  fi
+  git checkout "$CHECKPOINT_ID" -- "${SCOPE_PATHSPECS[@]}" 2>&1 && git add -A -- "${SCOPE_PATHSPECS[@]}" > /dev/null 2>&1
+elif [ "$RESTORE_MODE" = "exact" ]; then
+  # HEAD は動かさずにインデックスとワークツリーだけを合わせる（以降のチェックポイントを履歴に残す）
+  git clean -f -d > /dev/null 2>&1 && git read-tree -u --reset "$CHECKPOINT_ID" 2>&1
 else
+  git checkout "$CHECKPOINT_ID" -- ':(top)' 2>&1 && git add -A > /dev/null 2>&1
+fi
+
+if [ $? -ne 0 ]; then
   echo "Error: Failed to restore checkpoint"
   exit 1
 fi
+
+# 拡張機能と同じく、復元自体を新しいチェックポイントとして記録する（既に同じ状態なら記録しない）
+if ! git diff --cached --quiet 2>/dev/null; then
+  RESTORE_MESSAGE=$(
+    printf 'Restore: %s\n\nBranch: %s\nRestored-From: %s\nRestore-Mode: %s' \
+      "$COMMIT_MSG" "$TARGET_BRANCH" "$SHORT_ID" "$RESTORE_MODE"
+    for SCOPE_PATH in "${SCOPE_PATHS[@]}"; do
+      printf '\nScope: %s' "$SCOPE_PATH"
+    done
+  )
+  git commit -q -m "$RESTORE_MESSAGE" > /dev/null 2>&1
+fi
+
+echo "Successfully restored checkpoint ($RESTORE_MODE): $CHECKPOINT_ID"
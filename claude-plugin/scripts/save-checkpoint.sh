@@ -1,7 +1,7 @@
 #!/bin/bash
 
-# 何があっても正常終了してユーザー操作をブロックしない
-trap 'exit 0' EXIT ERR
+# 何があっても正常終了してユーザー操作をブロックしない（取得したロックは必ず解放する）
+trap 'release_checkpoint_lock 2>/dev/null; exit 0' EXIT ERR
 
 # stdinからJSONを読み取り、プロンプトを抽出
 INPUT=$(cat)
@@ -11,60 +11,13 @@ else
   USER_PROMPT=$(echo "$INPUT" | python3 -c "import sys, json; d=json.load(sys.stdin); print(d.get('prompt', '')[:500])" 2>/dev/null)
 fi
 
-# 古いロックファイルを削除する関数（60秒以上古い場合）
-remove_stale_lock() {
-  local lock_file="$1"
-  if [ -f "$lock_file" ]; then
-    # ロックファイルが60秒以上前のものか確認
-    if [ "$(uname)" = "Darwin" ]; then
-      # macOS
-      local file_time=$(stat -f %m "$lock_file" 2>/dev/null || echo 0)
-    else
-      # Linux
-      local file_time=$(stat -c %Y "$lock_file" 2>/dev/null || echo 0)
-    fi
-    local current_time=$(date +%s)
-    local age=$((current_time - file_time))
-
-    # 60秒以上古い場合は削除
-    if [ "$age" -gt 60 ]; then
-      rm -f "$lock_file" 2>/dev/null
-      return 0
-    fi
-  fi
-  return 1
-}
-
-# Gitロック待機関数（最大3秒）
-wait_for_git_lock() {
-  local repo="$1"
-  local lock_file="$repo/.git/index.lock"
-  local config_lock="$repo/.git/config.lock"
-
-  # 古いロックファイルを削除
-  remove_stale_lock "$lock_file"
-  remove_stale_lock "$config_lock"
-
-  # 短時間待機
-  local i=0
-  while [ -f "$lock_file" ] && [ "$i" -lt 6 ]; do
-    sleep 0.5
-    i=$((i + 1))
-  done
-
-  # まだロックファイルが残っていれば再度削除を試みる
-  if [ -f "$lock_file" ]; then
-    remove_stale_lock "$lock_file"
-  fi
-
-  [ ! -f "$lock_file" ]
-}
+# 拡張機能・OpenCodeプラグインと共通のアドバイザリロック
+source "$(dirname "${BASH_SOURCE[0]}")/checkpoint-lock.sh"
 
 # リトライ付きgit add（最大3回）
 safe_git_add() {
   local repo="$1"
   for i in 1 2 3; do
-    wait_for_git_lock "$repo" || return 1
     git -C "$repo" add -A 2>/dev/null && return 0
     sleep 0.3
   done
@@ -76,7 +29,6 @@ safe_git_commit() {
   local repo="$1"
   local message="$2"
   for i in 1 2 3; do
-    wait_for_git_lock "$repo" || return 1
     git -C "$repo" diff --cached --quiet 2>/dev/null && return 0
     git -C "$repo" commit -m "$message" 2>/dev/null && return 0
     sleep 0.3
@@ -104,6 +56,12 @@ LOG_FILE="$SHADOW_REPO/checkpoint.log"
 mkdir -p "$SHADOW_REPO"
 exec 2>>"$LOG_FILE"
 
+# 他のクライアントの操作が終わるまで待つ（最大10秒。取得できなければ今回は保存しない）
+if ! acquire_checkpoint_lock "claude" 10; then
+  echo "$(date '+%Y-%m-%d %H:%M:%S') - Shadow repository is locked by another client, skipped" >&2
+  exit 0
+fi
+
 # シャドウリポジトリの初期化（必要な場合）
 if [ ! -d "$SHADOW_REPO/.git" ]; then
   git -C "$SHADOW_REPO" init
@@ -19,6 +19,8 @@
 
 import type { Plugin } from "@opencode-ai/plugin"
 import { tool } from "@opencode-ai/plugin"
+import { copyFile, mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises"
+import { hostname } from "os"
 
 export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
   const getShadowRepo = async () => {
@@ -70,24 +72,119 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
     await $`git -C ${shadowRepo} config core.worktree ${gitRoot}`.quiet()
   }
 
-  // Wait for git lock file to be released (max 3 seconds)
-  const waitForGitLock = async (shadowRepo: string) => {
-    const lockFile = `${shadowRepo}/.git/index.lock`
-    for (let i = 0; i < 6; i++) {
+  // Advisory lock shared with the VSCode extension and the Claude Code plugin:
+  // the client that creates <shadowRepo>/.lock owns it and writes "key=value" lines
+  // (pid, host, client, created in Unix seconds) to .lock/owner. A lock is stale when
+  // its pid is gone on the same host, or it is older than 10 minutes on another host
+  // (a live owner on this host is never taken over, however long its operation runs).
+  const LOCK_STALE_SECONDS = 600
+
+  const readLockOwner = async (lockDir: string) => {
+    try {
+      const fields = new Map<string, string>()
+      for (const line of (await readFile(`${lockDir}/owner`, "utf-8")).split("\n")) {
+        const idx = line.indexOf("=")
+        if (idx > 0) fields.set(line.substring(0, idx), line.substring(idx + 1).trim())
+      }
+      const pid = Number(fields.get("pid"))
+      const created = Number(fields.get("created"))
+      if (!pid || !created) return null // not fully written yet
+      return { pid, host: fields.get("host") ?? "", client: fields.get("client") ?? "", created }
+    } catch {
+      return null
+    }
+  }
+
+  const isLockStale = async (lockDir: string) => {
+    const now = Date.now() / 1000
+    const owner = await readLockOwner(lockDir)
+    if (!owner) {
+      // The owner file may not be written yet right after mkdir
       try {
-        await $`test -f ${lockFile}`.quiet()
-        await Bun.sleep(500)
+        return now - (await stat(lockDir)).mtimeMs / 1000 > 5
       } catch {
-        return true // lock file doesn't exist
+        return false
+      }
+    }
+    if (owner.host === hostname()) {
+      try {
+        process.kill(owner.pid, 0)
+        return false
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code !== "EPERM"
+      }
+    }
+    return now - owner.created > LOCK_STALE_SECONDS
+  }
+
+  // Identifies a lock directory by inode and owner so a lock re-taken by another client
+  // after the staleness check is not mistaken for the stale one
+  const lockIdentity = async (lockDir: string) => {
+    try {
+      return `${(await stat(lockDir)).ino}:${JSON.stringify(await readLockOwner(lockDir))}`
+    } catch {
+      return null
+    }
+  }
+
+  // Acquire the lock (waits up to maxWaitMs), returns a release function or null
+  const acquireLock = async (shadowRepo: string, maxWaitMs: number) => {
+    const lockDir = `${shadowRepo}/.lock`
+    const deadline = Date.now() + maxWaitMs
+    await mkdir(shadowRepo, { recursive: true })
+    for (;;) {
+      try {
+        await mkdir(lockDir)
+        break
+      } catch {
+        // Held by another client
+      }
+      const staleIdentity = await lockIdentity(lockDir)
+      if (await isLockStale(lockDir)) {
+        // Rename before removing so two clients don't remove each other's fresh lock,
+        // and put it back if another client re-took the lock after our check
+        const staleDir = `${lockDir}.stale-${process.pid}-${Date.now()}`
+        try {
+          await rename(lockDir, staleDir)
+        } catch {
+          // Someone else took it over first
+          continue
+        }
+        if ((await lockIdentity(staleDir)) !== staleIdentity) {
+          try {
+            await rename(staleDir, lockDir)
+            continue
+          } catch {
+            // A newer lock exists already, so the one we moved cannot be put back
+          }
+        }
+        await rm(staleDir, { recursive: true, force: true })
+        continue
+      }
+      if (Date.now() >= deadline) return null
+      await Bun.sleep(100)
+    }
+
+    const created = Math.floor(Date.now() / 1000)
+    await writeFile(
+      `${lockDir}/owner`,
+      `pid=${process.pid}\nhost=${hostname()}\nclient=opencode\ncreated=${created}\n`
+    )
+    // Git lock files left while we hold the lock belong to a crashed client
+    await rm(`${shadowRepo}/.git/index.lock`, { force: true })
+    await rm(`${shadowRepo}/.git/HEAD.lock`, { force: true })
+
+    return async () => {
+      const owner = await readLockOwner(lockDir)
+      if (owner?.pid === process.pid && owner.created === created) {
+        await rm(lockDir, { recursive: true, force: true })
       }
     }
-    return false
   }
 
   // git add with retry (up to 3 times)
   const safeGitAdd = async (shadowRepo: string) => {
     for (let i = 0; i < 3; i++) {
-      if (!(await waitForGitLock(shadowRepo))) return false
       try {
         await $`git -C ${shadowRepo} add -A`.quiet()
         return true
@@ -101,7 +198,6 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
   // git commit with retry (up to 3 times)
   const safeGitCommit = async (shadowRepo: string, message: string) => {
     for (let i = 0; i < 3; i++) {
-      if (!(await waitForGitLock(shadowRepo))) return false
       try {
         // Check if there are staged changes
         await $`git -C ${shadowRepo} diff --cached --quiet`.quiet()
@@ -119,6 +215,63 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
     return false
   }
 
+  // Keep the workspace as it was before a restore under refs/safety/, with the same
+  // trailers as the VSCode extension, so "Undo Last Restore/Delete" can put it back
+  const SAFETY_SNAPSHOT_LIMIT = 20
+  const createSafetySnapshot = async (
+    shadowRepo: string,
+    gitRoot: string,
+    paths: string[],
+    description: string
+  ) => {
+    // Use a temporary index so the checkpoint index is not touched
+    const safetyIndex = `${shadowRepo}/.git/index.safety-${process.pid}-${Date.now()}`
+    const env = { ...process.env, GIT_INDEX_FILE: safetyIndex }
+    try {
+      await copyFile(`${shadowRepo}/.git/index`, safetyIndex).catch(() => undefined)
+      await $`git -C ${shadowRepo} add -A`.env(env).quiet()
+      const tree = (await $`git -C ${shadowRepo} write-tree`.env(env).quiet()).stdout
+        .toString()
+        .trim()
+
+      const branch =
+        (
+          await $`git -C ${gitRoot} rev-parse --abbrev-ref HEAD`.quiet().nothrow()
+        ).stdout
+          .toString()
+          .trim() || "unknown"
+      const message = [
+        `Safety: ${description}`,
+        "",
+        `Branch: ${branch}`,
+        "Safety-Action: restore",
+        ...paths.map((p) => `Safety-Path: ${p}`),
+      ].join("\n")
+      const hash = (
+        await $`git -C ${shadowRepo} commit-tree ${tree} -m ${message}`.quiet()
+      ).stdout
+        .toString()
+        .trim()
+      const safetyRef = `refs/safety/${Date.now()}-${hash.substring(0, 7)}`
+      await $`git -C ${shadowRepo} update-ref ${safetyRef} ${hash}`.quiet()
+    } finally {
+      await rm(safetyIndex, { force: true })
+    }
+
+    // Keep only the newest safety snapshots, like the extension
+    // Interpolate the format so the shell does not parse the parentheses
+    const refFormat = "--format=%(refname)"
+    const refs = (
+      await $`git -C ${shadowRepo} for-each-ref --sort=-refname ${refFormat} refs/safety/`.quiet()
+    ).stdout
+      .toString()
+      .split("\n")
+      .filter(Boolean)
+    for (const ref of refs.slice(SAFETY_SNAPSHOT_LIMIT)) {
+      await $`git -C ${shadowRepo} update-ref -d ${ref}`.quiet()
+    }
+  }
+
   return {
     // Auto-save on user message
     "chat.message": async (input, output) => {
@@ -126,24 +279,32 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
         const info = await getShadowRepo()
         if (!info) return
         const { shadowRepo, gitRoot } = info
-        await initShadowRepo(shadowRepo, gitRoot)
-
-        const branch =
-          (
-            await $`git -C ${gitRoot} rev-parse --abbrev-ref HEAD`.quiet()
-          ).stdout
-            .toString()
-            .trim() || "unknown"
-        const timestamp = new Date().toLocaleString("ja-JP", {
-          timeZone: "Asia/Tokyo",
-        })
-        const promptText =
-          output.message?.parts?.[0]?.text?.substring(0, 500) || ""
-        const title = `[OpenCode] ${branch} @ ${timestamp}`
-        const message = promptText ? `${title}\n\n${promptText}` : title
-
-        if (await safeGitAdd(shadowRepo)) {
-          await safeGitCommit(shadowRepo, message)
+
+        // Skip this checkpoint if another client keeps the repository busy
+        const release = await acquireLock(shadowRepo, 10000)
+        if (!release) return
+        try {
+          await initShadowRepo(shadowRepo, gitRoot)
+
+          const branch =
+            (
+              await $`git -C ${gitRoot} rev-parse --abbrev-ref HEAD`.quiet()
+            ).stdout
+              .toString()
+              .trim() || "unknown"
+          const timestamp = new Date().toLocaleString("ja-JP", {
+            timeZone: "Asia/Tokyo",
+          })
+          const promptText =
+            output.message?.parts?.[0]?.text?.substring(0, 500) || ""
+          const title = `[OpenCode] ${branch} @ ${timestamp}`
+          const message = promptText ? `${title}\n\n${promptText}` : title
+
+          if (await safeGitAdd(shadowRepo)) {
+            await safeGitCommit(shadowRepo, message)
+          }
+        } finally {
+          await release()
         }
       } catch {
         // Never break the session due to checkpoint failure
@@ -166,48 +327,63 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
             return "No checkpoints found."
           }
 
-          // Read deleted IDs
-          let deletedIds: Set<string> = new Set()
+          // Read snapshot metadata (.metadata.json, falling back to the legacy files)
+          const deletedIds: Set<string> = new Set()
+          const renamedMap = new Map<string, string>()
+          let hasMetadataStore = false
           try {
-            const deleted = (
-              await $`cat ${shadowRepo}/.deleted`.quiet()
-            ).stdout
-              .toString()
-              .trim()
-            if (deleted) {
-              for (const id of deleted.split("\n")) {
-                deletedIds.add(id.trim())
-              }
+            const metadata = JSON.parse(
+              (await $`cat ${shadowRepo}/.metadata.json`.quiet()).stdout.toString()
+            ) as { snapshots?: Record<string, { name?: string; deleted?: boolean }> }
+            for (const [id, record] of Object.entries(metadata.snapshots ?? {})) {
+              if (record.deleted) deletedIds.add(id)
+              if (record.name) renamedMap.set(id, record.name)
             }
+            hasMetadataStore = true
           } catch {
-            // No .deleted file
+            // No .metadata.json yet (the extension migrates on first use)
           }
 
-          // Read renamed mappings
-          const renamedMap = new Map<string, string>()
-          try {
-            const renamed = (
-              await $`cat ${shadowRepo}/.renamed`.quiet()
-            ).stdout
-              .toString()
-              .trim()
-            if (renamed) {
-              for (const line of renamed.split("\n")) {
-                const [id, ...nameParts] = line.split("\t")
-                if (id && nameParts.length > 0) {
-                  renamedMap.set(id.trim(), nameParts.join("\t").trim())
+          if (!hasMetadataStore) {
+            try {
+              const deleted = (
+                await $`cat ${shadowRepo}/.deleted`.quiet()
+              ).stdout
+                .toString()
+                .trim()
+              if (deleted) {
+                for (const id of deleted.split("\n")) {
+                  deletedIds.add(id.trim())
                 }
               }
+            } catch {
+              // No .deleted file
+            }
+
+            try {
+              const renamed = (
+                await $`cat ${shadowRepo}/.renamed`.quiet()
+              ).stdout
+                .toString()
+                .trim()
+              if (renamed) {
+                for (const line of renamed.split("\n")) {
+                  const [id, ...nameParts] = line.split("\t")
+                  if (id && nameParts.length > 0) {
+                    renamedMap.set(id.trim(), nameParts.join("\t").trim())
+                  }
+                }
+              }
+            } catch {
+              // No .renamed file
             }
-          } catch {
-            // No .renamed file
           }
 
-          // Get log
+          // Get log (same set as the extension: the main line and recovered snapshots, not safety or guard refs)
           let logOutput: string
           try {
             logOutput = (
-              await $`git -C ${shadowRepo} log --oneline --all --format=%h\ %s`.quiet()
+              await $`git -C ${shadowRepo} log --oneline HEAD --glob=refs/recovered --format=%h\ %s`.quiet()
             ).stdout
               .toString()
               .trim()
@@ -263,12 +439,18 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
             .describe(
               "Checkpoint commit ID (short hash from list_checkpoints)"
             ),
+          mode: tool.schema
+            .enum(["exact", "overlay"])
+            .optional()
+            .describe(
+              'Restore mode. "exact" (default) makes the workspace match the checkpoint and deletes files created after it; "overlay" only writes back the files in the checkpoint and keeps everything else'
+            ),
         },
         async execute(args, context) {
           const info = await getShadowRepo()
           if (!info) return "Error: Not a Git repository"
 
-          const { shadowRepo } = info
+          const { shadowRepo, gitRoot } = info
           try {
             await $`test -d ${shadowRepo}/.git`.quiet()
           } catch {
@@ -276,6 +458,8 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
           }
 
           const checkpointId = args.checkpoint_id
+          // Same default as the VSCode extension and the Claude Code plugin
+          const mode = args.mode ?? "exact"
 
           // Verify checkpoint exists
           try {
@@ -302,26 +486,106 @@ export const WorkCheckpointsPlugin: Plugin = async ({ $, worktree }) => {
             // ignore
           }
 
+          let bodyLines: string[] = []
+          let shortId = checkpointId
+          try {
+            bodyLines = (
+              await $`git -C ${shadowRepo} log -1 --format=%B ${checkpointId}`.quiet()
+            ).stdout
+              .toString()
+              .split("\n")
+            shortId = (
+              await $`git -C ${shadowRepo} rev-parse --short=7 ${checkpointId}`.quiet()
+            ).stdout
+              .toString()
+              .trim()
+          } catch {
+            // ignore
+          }
+          // Partial checkpoints only cover the paths in their Scope trailers
+          const scope = bodyLines
+            .filter((line) => line.startsWith("Scope: "))
+            .map((line) => line.slice("Scope: ".length))
+          // Branch trailer, or "<branch> @ <date>" in older checkpoints
+          const targetBranch = (
+            bodyLines.find((line) => line.startsWith("Branch: "))?.slice("Branch: ".length) ??
+            commitMsg.match(/^(.+) @ /)?.[1] ??
+            "unknown"
+          ).replace(/^\[(Claude|OpenCode)\]\s*/i, "")
+          const scopePathspecs = scope.map((p) => `:(top,literal)${p}`)
+          const scopeNote =
+            scope.length > 0 ? `\n  Scope: ${scope.join(", ")} (other files are not touched)` : ""
+
           // Ask for permission before restoring
           await context.ask({
-            permission: `Restore checkpoint ${checkpointId}?\n  Message: ${commitMsg}\n  Date: ${commitDate}\n\nThis will overwrite current workspace files.`,
+            permission: `Restore checkpoint ${checkpointId} (${mode})?\n  Message: ${commitMsg}\n  Date: ${commitDate}${scopeNote}\n\n${
+              mode === "exact"
+                ? "This will overwrite current workspace files and delete files that are not in the checkpoint."
+                : "This will overwrite current workspace files. Files that are not in the checkpoint are kept."
+            }`,
             patterns: ["*"],
             always: [],
             metadata: {
               checkpoint_id: checkpointId,
+              mode,
+              scope,
               message: commitMsg,
               date: commitDate,
             },
           })
 
           // Restore files
+          const release = await acquireLock(shadowRepo, 30000)
+          if (!release) {
+            return "Error: Checkpoints repository is in use by another client. Please try again."
+          }
           try {
-            await $`git -C ${shadowRepo} checkout ${checkpointId} -- .`.quiet()
+            await createSafetySnapshot(shadowRepo, gitRoot, scope, `Before restoring "${commitMsg}"`)
+
+            if (scopePathspecs.length > 0) {
+              if (mode === "exact") {
+                // Stage the current scoped files and delete the ones the checkpoint does not have
+                await $`git -C ${shadowRepo} add -A -- ${scopePathspecs}`.quiet()
+                const extraFiles = (
+                  await $`git -C ${shadowRepo} diff --cached --name-only --diff-filter=A -z ${checkpointId} -- ${scopePathspecs}`.quiet()
+                ).stdout
+                  .toString()
+                  .split("\0")
+                  .filter(Boolean)
+                for (const file of extraFiles) {
+                  await rm(`${gitRoot}/${file}`, { force: true })
+                }
+              }
+              await $`git -C ${shadowRepo} checkout ${checkpointId} -- ${scopePathspecs}`.quiet()
+              await $`git -C ${shadowRepo} add -A -- ${scopePathspecs}`.quiet()
+            } else if (mode === "exact") {
+              // Keep HEAD where it is so later checkpoints stay reachable
+              await $`git -C ${shadowRepo} clean -f -d`.quiet()
+              await $`git -C ${shadowRepo} read-tree -u --reset ${checkpointId}`.quiet()
+            } else {
+              // Interpolate the pathspec so the shell does not parse the parentheses
+              const topPathspec = ":(top)"
+              await $`git -C ${shadowRepo} checkout ${checkpointId} -- ${topPathspec}`.quiet()
+              await $`git -C ${shadowRepo} add -A`.quiet()
+            }
+
+            // Record the restore itself as a new checkpoint, like the extension
+            const restoreMessage = [
+              `Restore: ${commitMsg}`,
+              "",
+              `Branch: ${targetBranch}`,
+              `Restored-From: ${shortId}`,
+              `Restore-Mode: ${mode}`,
+              ...scope.map((p) => `Scope: ${p}`),
+            ].join("\n")
+            await safeGitCommit(shadowRepo, restoreMessage)
           } catch (error) {
             return `Error: Failed to restore checkpoint - ${String(error)}`
+          } finally {
+            await release()
           }
 
-          return `Successfully restored checkpoint: ${checkpointId}\n  Message: ${commitMsg}\n  Date: ${commitDate}`
+          return `Successfully restored checkpoint (${mode}): ${checkpointId}\n  Message: ${commitMsg}\n  Date: ${commitDate}${scopeNote}`
         },
       }),
     },
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { ShadowGitService } from '../services/shadowGitService';
+import { SnapshotContentProvider } from '../providers/snapshotContentProvider';
+import { DiffFileInfo, DiffFileStatus, SnapshotMetadata } from '../types';
+import { SNAPSHOT_PAGE_SIZE } from '../utils/constants';
+import { pickWorkspaceRepository } from '../utils/workspaceRepositories';
+
+interface SnapshotQuickPickItem extends vscode.QuickPickItem {
+  snapshot: SnapshotMetadata;
+}
+
+interface CompareFileQuickPickItem extends vscode.QuickPickItem {
+  diffFile: DiffFileInfo;
+}
+
+const isSnapshotItem = (item: vscode.QuickPickItem): item is SnapshotQuickPickItem => 'snapshot' in item;
+
+const searchAllItem: vscode.QuickPickItem = {
+  label: '$(search) Search all snapshots…',
+  alwaysShow: true,
+};
+
+const statusIcons: Record<DiffFileStatus, string> = {
+  added: '$(diff-added)',
+  modified: '$(diff-modified)',
+  deleted: '$(diff-removed)',
+  renamed: '$(diff-renamed)',
+};
+
+const toQuickPickItem = (snapshot: SnapshotMetadata): SnapshotQuickPickItem => ({
+  label: snapshot.description,
+  description: `[${snapshot.branchName}] ${snapshot.timestamp.toLocaleString()}`,
+  detail: `ID: ${snapshot.id}`,
+  snapshot,
+});
+
+const formatDiffStats = (diffFile: DiffFileInfo): string => {
+  const parts: string[] = [];
+  if (diffFile.insertions > 0) {
+    parts.push(`+${diffFile.insertions}`);
+  }
+  if (diffFile.deletions > 0) {
+    parts.push(`-${diffFile.deletions}`);
+  }
+  return parts.join(' ');
+};
+
+// 最新のページから選び、必要なら全履歴から検索する
+const pickSnapshot = async (
+  shadowGitService: ShadowGitService,
+  placeHolder: string,
+  excludeId?: string
+): Promise<SnapshotMetadata | undefined> => {
+  const filter = (snapshot: SnapshotMetadata) => snapshot.id !== excludeId;
+  const page = await shadowGitService.listSnapshotPage({ limit: SNAPSHOT_PAGE_SIZE, filter });
+
+  const items: vscode.QuickPickItem[] = page.snapshots.map(toQuickPickItem);
+  if (page.nextCursor !== null) {
+    items.push(searchAllItem);
+  }
+
+  let picked = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true, matchOnDetail: true });
+
+  if (picked === searchAllItem) {
+    const allSnapshots = (await shadowGitService.listSnapshots()).filter(filter);
+    picked = await vscode.window.showQuickPick(allSnapshots.map(toQuickPickItem), {
+      placeHolder: `${placeHolder} (all ${allSnapshots.length} snapshots)`,
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+  }
+
+  return picked && isSnapshotItem(picked) ? picked.snapshot : undefined;
+};
+
+const openCompareDiff = async (
+  shadowGitService: ShadowGitService,
+  base: SnapshotMetadata,
+  target: SnapshotMetadata,
+  diffFile: DiffFileInfo
+): Promise<void> => {
+  // 片方に存在しないファイルは SnapshotContentProvider が空として返す
+  const { repoIdentifier } = shadowGitService;
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    SnapshotContentProvider.createUri(base.id, diffFile.oldFile ?? diffFile.file, repoIdentifier),
+    SnapshotContentProvider.createUri(target.id, diffFile.file, repoIdentifier),
+    `${diffFile.file} (${base.id} ↔ ${target.id})`,
+    { preview: true, preserveFocus: true }
+  );
+};
+
+// base から target への変更ファイルを一覧表示し、選択したファイルの差分を開く
+export const showSnapshotComparison = async (
+  shadowGitService: ShadowGitService,
+  base: SnapshotMetadata,
+  target: SnapshotMetadata
+): Promise<void> => {
+  const diffFiles = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Comparing snapshots...',
+      cancellable: false,
+    },
+    async () => {
+      return await shadowGitService.compareSnapshots(base.id, target.id);
+    }
+  );
+
+  if (diffFiles.length === 0) {
+    vscode.window.showInformationMessage('The selected snapshots have identical files.');
+    return;
+  }
+
+  const insertions = diffFiles.reduce((sum, diffFile) => sum + diffFile.insertions, 0);
+  const deletions = diffFiles.reduce((sum, diffFile) => sum + diffFile.deletions, 0);
+
+  const quickPick = vscode.window.createQuickPick<CompareFileQuickPickItem>();
+  quickPick.items = diffFiles.map((diffFile) => ({
+    label: `${statusIcons[diffFile.status]} ${diffFile.oldFile ? `${diffFile.oldFile} → ` : ''}${diffFile.file}`,
+    description: formatDiffStats(diffFile),
+    diffFile,
+  }));
+  quickPick.title = `Compare "${base.description}" ↔ "${target.description}": ${diffFiles.length} file(s), +${insertions} -${deletions}`;
+  quickPick.placeholder = 'Select a file to view its diff';
+  quickPick.matchOnDescription = true;
+  // 差分を開いてもピッカーを閉じない
+  quickPick.ignoreFocusOut = true;
+
+  quickPick.onDidAccept(async () => {
+    const [item] = quickPick.selectedItems;
+    if (item) {
+      await openCompareDiff(shadowGitService, base, target, item.diffFile);
+    }
+  });
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+};
+
+export const compareSnapshots = async (): Promise<void> => {
+  const repository = await pickWorkspaceRepository('Select a repository to compare snapshots in');
+  if (!repository) {
+    return;
+  }
+
+  const { shadowGitService } = repository;
+
+  const first = await pickSnapshot(shadowGitService, 'Select the first snapshot to compare');
+  if (!first) {
+    return;
+  }
+
+  const second = await pickSnapshot(shadowGitService, `Compare "${first.description}" with…`, first.id);
+  if (!second) {
+    return;
+  }
+
+  // 古い方を左側にして、時間の流れに沿った差分にする
+  const [base, target] = first.timestamp <= second.timestamp ? [first, second] : [second, first];
+  await showSnapshotComparison(shadowGitService, base, target);
+};
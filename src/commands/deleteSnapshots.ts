@@ -1,59 +1,68 @@
 import * as vscode from 'vscode';
-import { WorkspaceService } from '../services/workspaceService';
-import { ShadowGitService } from '../services/shadowGitService';
 import { SnapshotMetadata } from '../types';
+import { SNAPSHOT_PAGE_SIZE } from '../utils/constants';
+import { pickWorkspaceRepository } from '../utils/workspaceRepositories';
 
 interface SnapshotQuickPickItem extends vscode.QuickPickItem {
   snapshot: SnapshotMetadata;
 }
 
-const initializeServices = async (): Promise<{ workspaceService: WorkspaceService; shadowGitService: ShadowGitService } | null> => {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    vscode.window.showErrorMessage('No workspace folder is open.');
-    return null;
-  }
-
-  const workspacePath = workspaceFolders[0].uri.fsPath;
-  let workspaceService = new WorkspaceService(workspacePath);
-
-  const gitRoot = await workspaceService.getGitRoot();
-  if (!gitRoot) {
-    vscode.window.showErrorMessage('No Git repository found in workspace.');
-    return null;
-  }
-
-  workspaceService = new WorkspaceService(gitRoot);
-  const remoteUrl = await workspaceService.getRemoteOriginUrl();
-  const shadowGitService = new ShadowGitService(remoteUrl, gitRoot);
+const isSnapshotItem = (item: vscode.QuickPickItem): item is SnapshotQuickPickItem => 'snapshot' in item;
 
-  return { workspaceService, shadowGitService };
+const searchAllItem: vscode.QuickPickItem = {
+  label: '$(search) Search all snapshots…',
+  description: 'Select this to pick from the whole history',
+  alwaysShow: true,
 };
 
 export const deleteSnapshots = async (): Promise<void> => {
-  const services = await initializeServices();
-  if (!services) {
+  const repository = await pickWorkspaceRepository('Select a repository to delete snapshots from');
+  if (!repository) {
     return;
   }
 
-  const { shadowGitService } = services;
-  const snapshots = await shadowGitService.listSnapshots();
-  if (snapshots.length === 0) {
+  const { shadowGitService } = repository;
+  // 最初は最新のページだけを表示し、必要なら全履歴から選び直す
+  const page = await shadowGitService.listSnapshotPage({ limit: SNAPSHOT_PAGE_SIZE });
+  if (page.snapshots.length === 0) {
     vscode.window.showInformationMessage('No snapshots available.');
     return;
   }
 
-  const items: SnapshotQuickPickItem[] = snapshots.map((snapshot) => ({
+  const items: vscode.QuickPickItem[] = page.snapshots.map((snapshot) => ({
     label: snapshot.description,
     snapshot,
   }));
+  if (page.nextCursor !== null) {
+    items.push(searchAllItem);
+  }
 
-  const selected = await vscode.window.showQuickPick(items, {
+  let picked = await vscode.window.showQuickPick(items, {
     placeHolder: 'Select snapshots to delete',
     canPickMany: true,
   });
 
-  if (!selected || selected.length === 0) {
+  if (picked?.includes(searchAllItem)) {
+    // 既に選択したものは選択済みのまま全件を表示する
+    const pickedIds = new Set(
+      picked.filter(isSnapshotItem).map((item) => item.snapshot.id)
+    );
+    const allSnapshots = await shadowGitService.listSnapshots();
+    picked = await vscode.window.showQuickPick(
+      allSnapshots.map((snapshot) => ({
+        label: snapshot.description,
+        picked: pickedIds.has(snapshot.id),
+        snapshot,
+      })),
+      {
+        placeHolder: `Select snapshots to delete (${allSnapshots.length} total)`,
+        canPickMany: true,
+      }
+    );
+  }
+
+  const selected = (picked ?? []).filter(isSnapshotItem);
+  if (selected.length === 0) {
     return;
   }
 
@@ -86,12 +95,12 @@ export const deleteSnapshots = async (): Promise<void> => {
 };
 
 export const deleteClaudeSnapshots = async (): Promise<void> => {
-  const services = await initializeServices();
-  if (!services) {
+  const repository = await pickWorkspaceRepository('Select a repository to delete Claude snapshots from');
+  if (!repository) {
     return;
   }
 
-  const { shadowGitService } = services;
+  const { shadowGitService } = repository;
   const allSnapshots = await shadowGitService.listSnapshots();
   const renamedIds = await shadowGitService.getRenamedIds();
 
@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { ShadowGitService } from '../services/shadowGitService';
+import { SnapshotMetadata } from '../types';
+import { pickWorkspaceRepository } from '../utils/workspaceRepositories';
+
+interface LostSnapshotQuickPickItem extends vscode.QuickPickItem {
+  snapshot: SnapshotMetadata;
+}
+
+const previewButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('diff'),
+  tooltip: 'Preview Changes',
+};
+
+const showSnapshotPatch = async (shadowGitService: ShadowGitService, snapshot: SnapshotMetadata): Promise<void> => {
+  const patch = await shadowGitService.getSnapshotPatch(snapshot.id);
+  const doc = await vscode.workspace.openTextDocument({ content: patch, language: 'diff' });
+  await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true, viewColumn: vscode.ViewColumn.Beside });
+};
+
+const pickLostSnapshots = (
+  shadowGitService: ShadowGitService,
+  items: LostSnapshotQuickPickItem[]
+): Promise<readonly LostSnapshotQuickPickItem[]> => {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<LostSnapshotQuickPickItem>();
+    quickPick.items = items;
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    // プレビューを開いてもピッカーを閉じない
+    quickPick.ignoreFocusOut = true;
+    quickPick.title = `Recover Lost Snapshots (${items.length} found)`;
+    quickPick.placeholder = 'Select snapshots to recover';
+
+    let result: readonly LostSnapshotQuickPickItem[] = [];
+    quickPick.onDidTriggerItemButton(async (e) => {
+      await showSnapshotPatch(shadowGitService, e.item.snapshot);
+    });
+    quickPick.onDidAccept(() => {
+      result = quickPick.selectedItems;
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(result);
+    });
+    quickPick.show();
+  });
+};
+
+export const recoverLostSnapshots = async (): Promise<void> => {
+  const repository = await pickWorkspaceRepository('Select a repository to recover snapshots in');
+  if (!repository) {
+    return;
+  }
+
+  const { shadowGitService } = repository;
+  const lostSnapshots = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Scanning for lost snapshots...',
+      cancellable: false,
+    },
+    async () => {
+      return await shadowGitService.findLostSnapshots();
+    }
+  );
+
+  if (lostSnapshots.length === 0) {
+    vscode.window.showInformationMessage('No lost snapshots found.');
+    return;
+  }
+
+  const shortStats = await shadowGitService.getSnapshotShortStats(lostSnapshots.map((s) => s.id));
+  const items: LostSnapshotQuickPickItem[] = lostSnapshots.map((snapshot) => ({
+    label: snapshot.description,
+    description: `[${snapshot.branchName}] ${snapshot.id} · ${snapshot.timestamp.toLocaleString()}`,
+    detail: shortStats.get(snapshot.id) || 'No changes',
+    buttons: [previewButton],
+    snapshot,
+  }));
+
+  const selected = await pickLostSnapshots(shadowGitService, items);
+  if (selected.length === 0) {
+    return;
+  }
+
+  await shadowGitService.recoverSnapshots(selected.map((item) => item.snapshot.id));
+  vscode.window.showInformationMessage(`Recovered ${selected.length} snapshot(s).`);
+};
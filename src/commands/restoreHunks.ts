@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { ShadowGitService } from '../services/shadowGitService';
+import { SnapshotContentProvider } from '../providers/snapshotContentProvider';
+import { DiffHunk } from '../types';
+import { clipHunksToRange, computeHunks, splitLines, toReplacements } from '../utils/hunkUtils';
+
+interface HunkQuickPickItem extends vscode.QuickPickItem {
+  hunk: DiffHunk;
+}
+
+// スナップショット側をドキュメントと同じエンコーディングで読む
+// workspace.decode の無い古い VS Code では UTF-8 のドキュメントだけを扱い、それ以外は null
+const decodeSnapshotContent = async (buffer: Buffer, document: vscode.TextDocument): Promise<string | null> => {
+  const encoding =
+    (document.encoding as string | undefined) ??
+    vscode.workspace.getConfiguration('files', document.uri).get<string>('encoding', 'utf8');
+  if (typeof vscode.workspace.decode !== 'function') {
+    return encoding === 'utf8' || encoding === 'utf8bom' ? new TextDecoder().decode(buffer) : null;
+  }
+  return await vscode.workspace.decode(buffer, { encoding });
+};
+
+// スナップショット側と現在のドキュメント（未保存の編集を含む）を行単位で比較する
+const loadHunks = async (
+  shadowGitService: ShadowGitService,
+  snapshotId: string,
+  snapshotFilePath: string,
+  document: vscode.TextDocument
+): Promise<{ currentLines: string[]; hunks: DiffHunk[] } | null> => {
+  const buffer = (await shadowGitService.getSnapshotFileBuffer(snapshotId, snapshotFilePath)) ?? Buffer.alloc(0);
+  if (buffer.includes(0)) {
+    vscode.window.showErrorMessage('Binary files can only be restored as a whole.');
+    return null;
+  }
+
+  const snapshotText = await decodeSnapshotContent(buffer, document);
+  if (snapshotText === null) {
+    vscode.window.showErrorMessage('Files that are not UTF-8 can only be restored as a whole in this version of VS Code.');
+    return null;
+  }
+
+  const currentLines = splitLines(document.getText());
+  const hunks = computeHunks(currentLines, splitLines(snapshotText));
+  return { currentLines, hunks };
+};
+
+// エディタ上の編集として適用するので、保存前なら Undo で取り消せる
+const applyHunks = async (document: vscode.TextDocument, currentLines: string[], hunks: DiffHunk[]): Promise<void> => {
+  const edit = new vscode.WorkspaceEdit();
+  for (const replacement of toReplacements(currentLines, hunks)) {
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+      replacement.text
+    );
+  }
+
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    vscode.window.showErrorMessage('Failed to apply the changes to the file.');
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Restored ${hunks.length} change(s) from snapshot. Save the file to keep them, or undo in the editor.`
+  );
+};
+
+const toHunkQuickPickItem = (hunk: DiffHunk): HunkQuickPickItem => {
+  const label =
+    hunk.currentStart === hunk.currentEnd
+      ? `Before line ${hunk.currentStart + 1}`
+      : hunk.currentEnd - hunk.currentStart === 1
+        ? `Line ${hunk.currentStart + 1}`
+        : `Lines ${hunk.currentStart + 1}–${hunk.currentEnd}`;
+  const preview = [
+    ...hunk.currentLines.map((line) => `- ${line.trim()}`),
+    ...hunk.snapshotLines.map((line) => `+ ${line.trim()}`),
+  ].slice(0, 3);
+
+  return {
+    label,
+    description: `-${hunk.currentLines.length} +${hunk.snapshotLines.length}`,
+    detail: preview.join('  '),
+    hunk,
+  };
+};
+
+// スナップショットとの差分をハンクごとに選び、選んだ部分だけを現在のファイルに戻す
+export const restoreHunks = async (
+  shadowGitService: ShadowGitService,
+  snapshotId: string,
+  snapshotFilePath: string,
+  fileUri: vscode.Uri
+): Promise<void> => {
+  let document: vscode.TextDocument;
+  try {
+    document = await vscode.workspace.openTextDocument(fileUri);
+  } catch {
+    vscode.window.showErrorMessage(`File does not exist: ${vscode.workspace.asRelativePath(fileUri)}`);
+    return;
+  }
+
+  const result = await loadHunks(shadowGitService, snapshotId, snapshotFilePath, document);
+  if (!result) {
+    return;
+  }
+  if (result.hunks.length === 0) {
+    vscode.window.showInformationMessage('The file already matches the snapshot.');
+    return;
+  }
+  const version = document.version;
+
+  // 差分を横に表示したまま選べるようにする
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    SnapshotContentProvider.createUri(snapshotId, snapshotFilePath, shadowGitService.repoIdentifier),
+    fileUri,
+    `${snapshotFilePath} (Snapshot vs Current)`,
+    { preview: true, preserveFocus: true }
+  );
+
+  const selected = await vscode.window.showQuickPick(result.hunks.map(toHunkQuickPickItem), {
+    placeHolder: 'Select the changes to restore from the snapshot',
+    canPickMany: true,
+    ignoreFocusOut: true,
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  // 選択中にファイルが編集された場合、ハンクの位置がずれているので適用しない
+  if (document.version !== version) {
+    vscode.window.showErrorMessage('The file changed while selecting. Please try again.');
+    return;
+  }
+
+  await applyHunks(document, result.currentLines, selected.map((item) => item.hunk));
+};
+
+// スナップショットとの差分エディタで、選択した行の変更だけを戻す（ハンクの一部を選んだ場合はその行だけ）
+// 差分エディタの URI から、スナップショットのリポジトリを求める
+export const restoreSelectedLines = async (
+  getShadowGitService: (repoIdentifier: string) => ShadowGitService | null
+): Promise<void> => {
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  const editor = vscode.window.activeTextEditor;
+  if (
+    !(input instanceof vscode.TabInputTextDiff) ||
+    input.original.scheme !== SnapshotContentProvider.scheme ||
+    input.modified.scheme !== 'file' ||
+    !editor ||
+    editor.document.uri.toString() !== input.modified.toString()
+  ) {
+    vscode.window.showErrorMessage('Open a snapshot diff and select lines in the current file first.');
+    return;
+  }
+
+  const { repoIdentifier, snapshotId, filePath } = SnapshotContentProvider.parseUri(input.original);
+  const shadowGitService = getShadowGitService(repoIdentifier);
+  if (!shadowGitService) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+    return;
+  }
+
+  const result = await loadHunks(shadowGitService, snapshotId, filePath, editor.document);
+  if (!result) {
+    return;
+  }
+
+  // 同じ行や隣り合う行に掛かる選択はまとめ、同じ変更を二重に戻さないようにする
+  const ranges: [number, number][] = [];
+  for (const { start, end } of [...editor.selections].sort((a, b) => a.start.line - b.start.line)) {
+    const last = ranges[ranges.length - 1];
+    if (last && start.line <= last[1] + 1) {
+      last[1] = Math.max(last[1], end.line);
+    } else {
+      ranges.push([start.line, end.line]);
+    }
+  }
+  const hunks = ranges.flatMap(([startLine, endLine]) => clipHunksToRange(result.hunks, startLine, endLine));
+  if (hunks.length === 0) {
+    vscode.window.showInformationMessage('The selected lines have no changes from the snapshot.');
+    return;
+  }
+
+  await applyHunks(editor.document, result.currentLines, hunks);
+};
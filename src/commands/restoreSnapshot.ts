@@ -1,67 +1,193 @@
 import * as vscode from 'vscode';
-import { WorkspaceService } from '../services/workspaceService';
+import * as path from 'path';
 import { ShadowGitService } from '../services/shadowGitService';
-import { SnapshotMetadata } from '../types';
+import { WorkspaceService } from '../services/workspaceService';
+import { SnapshotContentProvider } from '../providers/snapshotContentProvider';
+import { RestoreChange, RestoreMode, RestorePreviewFile, SnapshotMetadata } from '../types';
+import { SNAPSHOT_PAGE_SIZE } from '../utils/constants';
+import { pickWorkspaceRepository } from '../utils/workspaceRepositories';
 
 interface SnapshotQuickPickItem extends vscode.QuickPickItem {
   snapshot: SnapshotMetadata;
 }
 
-export const restoreSnapshot = async (): Promise<void> => {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    vscode.window.showErrorMessage('No workspace folder is open.');
-    return;
-  }
+const isSnapshotItem = (item: vscode.QuickPickItem): item is SnapshotQuickPickItem => 'snapshot' in item;
 
-  const workspacePath = workspaceFolders[0].uri.fsPath;
-  let workspaceService = new WorkspaceService(workspacePath);
+const searchAllItem: vscode.QuickPickItem = {
+  label: '$(search) Search all snapshots…',
+  alwaysShow: true,
+};
+
+const toQuickPickItem = (snapshot: SnapshotMetadata): SnapshotQuickPickItem => ({
+  label: snapshot.description,
+  detail: `ID: ${snapshot.id}`,
+  snapshot,
+});
+
+interface RestorePreviewQuickPickItem extends vscode.QuickPickItem {
+  previewFile?: RestorePreviewFile;
+}
 
-  const gitRoot = await workspaceService.getGitRoot();
-  if (!gitRoot) {
-    vscode.window.showErrorMessage('No Git repository found in workspace.');
+const changeLabels: Record<RestoreChange, { icon: string; label: string }> = {
+  overwrite: { icon: '$(edit)', label: 'Will be overwritten' },
+  create: { icon: '$(add)', label: 'Will be created' },
+  delete: { icon: '$(trash)', label: 'Will be deleted' },
+};
+
+const openPreviewDiff = async (
+  shadowGitService: ShadowGitService,
+  snapshot: SnapshotMetadata,
+  previewFile: RestorePreviewFile,
+  gitRoot: string
+): Promise<void> => {
+  const snapshotUri = SnapshotContentProvider.createUri(snapshot.id, previewFile.file, shadowGitService.repoIdentifier);
+  const currentFileUri = vscode.Uri.file(path.join(gitRoot, previewFile.file));
+
+  // 現在のファイルが無い場合はスナップショット側だけを開く
+  if (previewFile.change === 'create') {
+    await vscode.commands.executeCommand('vscode.open', snapshotUri, { preview: true, preserveFocus: true });
     return;
   }
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    currentFileUri,
+    snapshotUri,
+    `${previewFile.file} (Current ↔ After Restore)`,
+    { preview: true, preserveFocus: true }
+  );
+};
 
-  // Re-initialize with git root to ensure correct git operations
-  workspaceService = new WorkspaceService(gitRoot);
+const restoreModeLabels: Record<RestoreMode, string> = {
+  exact: 'Exact',
+  overlay: 'Overlay only',
+};
 
-  const remoteUrl = await workspaceService.getRemoteOriginUrl();
-  const shadowGitService = new ShadowGitService(remoteUrl, gitRoot);
+export const getDefaultRestoreMode = (): RestoreMode => {
+  const config = vscode.workspace.getConfiguration('work-checkpoints');
+  return config.get<RestoreMode>('restoreMode', 'exact') === 'overlay' ? 'overlay' : 'exact';
+};
 
-  const snapshots = await shadowGitService.listSnapshots();
-  if (snapshots.length === 0) {
-    vscode.window.showInformationMessage('No snapshots available.');
-    return;
+// 復元によって上書き・作成・削除されるファイルを一覧表示し、確認を取る
+// 確認画面で復元モードを切り替えられるようにし、選択されたモードを返す（キャンセル時は undefined）
+export const confirmRestoreWithPreview = async (
+  shadowGitService: ShadowGitService,
+  snapshot: SnapshotMetadata,
+  gitRoot: string,
+  initialMode: RestoreMode = getDefaultRestoreMode()
+): Promise<RestoreMode | undefined> => {
+  const allPreviewFiles = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Preparing restore preview...',
+      cancellable: false,
+    },
+    async () => {
+      // 部分スナップショットは対象パスの中だけを戻す
+      return await shadowGitService.previewRestore(snapshot.id, snapshot.scope);
+    }
+  );
+
+  if (allPreviewFiles.length === 0) {
+    vscode.window.showInformationMessage('The workspace already matches this snapshot.');
+    return undefined;
   }
 
-  const items: SnapshotQuickPickItem[] = snapshots.map((snapshot) => ({
-    label: snapshot.description,
-    detail: `ID: ${snapshot.id}`,
-    snapshot,
-  }));
+  let mode = initialMode;
 
-  const selected = await vscode.window.showQuickPick(items, {
-    placeHolder: 'Select a snapshot to restore',
-    matchOnDetail: true,
+  const restoreItem: RestorePreviewQuickPickItem = {
+    label: '$(history) Restore Snapshot',
+    alwaysShow: true,
+  };
+  const switchModeItem: RestorePreviewQuickPickItem = {
+    label: '$(arrow-swap) Switch Restore Mode',
+    alwaysShow: true,
+  };
+
+  // overlay ではスナップショットに無いファイルを削除しない
+  const buildItems = (): { items: RestorePreviewQuickPickItem[]; summary: string } => {
+    const previewFiles =
+      mode === 'overlay' ? allPreviewFiles.filter((previewFile) => previewFile.change !== 'delete') : allPreviewFiles;
+
+    const counts: Record<RestoreChange, number> = { overwrite: 0, create: 0, delete: 0 };
+    for (const previewFile of previewFiles) {
+      counts[previewFile.change]++;
+    }
+    const summary = `${counts.overwrite} overwritten, ${counts.create} created, ${counts.delete} deleted`;
+
+    const otherMode: RestoreMode = mode === 'exact' ? 'overlay' : 'exact';
+    restoreItem.description = `${restoreModeLabels[mode]} · ${summary}`;
+    switchModeItem.description = `Use ${restoreModeLabels[otherMode]} instead`;
+
+    const items: RestorePreviewQuickPickItem[] = [restoreItem, switchModeItem];
+    for (const change of ['overwrite', 'create', 'delete'] as RestoreChange[]) {
+      const filesForChange = previewFiles.filter((previewFile) => previewFile.change === change);
+      if (filesForChange.length === 0) {
+        continue;
+      }
+      items.push({ label: `${changeLabels[change].label} (${filesForChange.length})`, kind: vscode.QuickPickItemKind.Separator });
+      items.push(
+        ...filesForChange.map((previewFile) => ({
+          label: `${changeLabels[change].icon} ${previewFile.file}`,
+          description: changeLabels[change].label,
+          previewFile,
+        }))
+      );
+    }
+    return { items, summary };
+  };
+
+  return await new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<RestorePreviewQuickPickItem>();
+    const render = (): void => {
+      const { items, summary } = buildItems();
+      quickPick.items = items;
+      const scopeLabel = snapshot.scope ? `, ${snapshot.scope.length} path(s) only` : '';
+      quickPick.title = `Restore "${snapshot.description}" (${restoreModeLabels[mode]}${scopeLabel}): ${summary}`;
+    };
+    render();
+    quickPick.placeholder = 'Select a file to view its diff, or "Restore Snapshot" to continue';
+    // 差分を開いてもピッカーを閉じない
+    quickPick.ignoreFocusOut = true;
+
+    let confirmed = false;
+    quickPick.onDidAccept(async () => {
+      const [item] = quickPick.selectedItems;
+      if (item === restoreItem) {
+        confirmed = true;
+        quickPick.hide();
+      } else if (item === switchModeItem) {
+        mode = mode === 'exact' ? 'overlay' : 'exact';
+        render();
+      } else if (item?.previewFile) {
+        await openPreviewDiff(shadowGitService, snapshot, item.previewFile, gitRoot);
+      }
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(confirmed ? mode : undefined);
+    });
+    quickPick.show();
   });
+};
 
-  if (!selected) {
-    return;
+// 完了通知から直前の復元・削除を取り消せるようにする
+export const showUndoableMessage = async (message: string): Promise<void> => {
+  const choice = await vscode.window.showInformationMessage(message, 'Undo');
+  if (choice === 'Undo') {
+    await vscode.commands.executeCommand('work-checkpoints.undoLastRestore');
   }
+};
 
-  // Check for uncommitted changes
-  const hasChanges = await workspaceService.hasUncommittedChanges();
-  if (hasChanges) {
-    const confirm = await vscode.window.showWarningMessage(
-      'You have uncommitted changes. Restoring will overwrite your current work.',
-      { modal: true },
-      'Restore Anyway'
-    );
-
-    if (confirm !== 'Restore Anyway') {
-      return;
-    }
+// 復元されるファイルを確認してから、安全用スナップショットを取って復元する
+export const restoreWithSafetySnapshot = async (
+  shadowGitService: ShadowGitService,
+  workspaceService: WorkspaceService,
+  snapshot: SnapshotMetadata,
+  gitRoot: string
+): Promise<void> => {
+  const mode = await confirmRestoreWithPreview(shadowGitService, snapshot, gitRoot);
+  if (!mode) {
+    return;
   }
 
   await vscode.window.withProgress(
@@ -71,11 +197,58 @@ export const restoreSnapshot = async (): Promise<void> => {
       cancellable: false,
     },
     async () => {
-      await shadowGitService.restoreSnapshot(selected.snapshot.id);
-
-      vscode.window.showInformationMessage(
-        `Snapshot restored: ${selected.snapshot.description}`
+      const branchName = await workspaceService.getCurrentBranch();
+      await shadowGitService.createSafetySnapshot(
+        'restore',
+        snapshot.scope ?? [],
+        branchName,
+        `Before restoring "${snapshot.description}"`
       );
+      await shadowGitService.restoreSnapshot(snapshot.id, mode);
     }
   );
+
+  // 通知を待たずに戻り、呼び出し元でツリーを更新できるようにする
+  void showUndoableMessage(`Snapshot restored: ${snapshot.description}`);
+};
+
+export const restoreSnapshot = async (): Promise<void> => {
+  const repository = await pickWorkspaceRepository('Select a repository to restore a snapshot in');
+  if (!repository) {
+    return;
+  }
+
+  const { gitRoot, workspaceService, shadowGitService } = repository;
+
+  // 最初は最新のページだけを表示し、必要なら全履歴から検索する
+  const page = await shadowGitService.listSnapshotPage({ limit: SNAPSHOT_PAGE_SIZE });
+  if (page.snapshots.length === 0) {
+    vscode.window.showInformationMessage('No snapshots available.');
+    return;
+  }
+
+  const items: vscode.QuickPickItem[] = page.snapshots.map(toQuickPickItem);
+  if (page.nextCursor !== null) {
+    items.push(searchAllItem);
+  }
+
+  let picked = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a snapshot to restore',
+    matchOnDetail: true,
+  });
+
+  if (picked === searchAllItem) {
+    const allSnapshots = await shadowGitService.listSnapshots();
+    picked = await vscode.window.showQuickPick(allSnapshots.map(toQuickPickItem), {
+      placeHolder: `Search all ${allSnapshots.length} snapshots`,
+      matchOnDetail: true,
+    });
+  }
+
+  if (!picked || !isSnapshotItem(picked)) {
+    return;
+  }
+  const selected = picked;
+
+  await restoreWithSafetySnapshot(shadowGitService, workspaceService, selected.snapshot, gitRoot);
 };
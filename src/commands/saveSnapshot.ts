@@ -1,54 +1,212 @@
 import * as vscode from 'vscode';
-import { WorkspaceService } from '../services/workspaceService';
-import { ShadowGitService } from '../services/shadowGitService';
+import { SnapshotMetadata } from '../types';
+import { collectUnsavedFiles, toRelativePath } from '../utils/unsavedFiles';
+import {
+  RepositoryQuickPickItem,
+  WorkspaceRepository,
+  findRepositoriesOrShowError,
+  findRepositoryForPath,
+  toRepositoryQuickPickItem,
+} from '../utils/workspaceRepositories';
 
-export const saveSnapshot = async (customDescription?: string): Promise<void> => {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    vscode.window.showErrorMessage('No workspace folder is open.');
-    return;
-  }
+const allRepositoriesItem: vscode.QuickPickItem = {
+  label: '$(repo-clone) All Repositories',
+  description: 'Save a snapshot in every repository with changes',
+  alwaysShow: true,
+};
 
-  const workspacePath = workspaceFolders[0].uri.fsPath;
-  let workspaceService = new WorkspaceService(workspacePath);
+const isRepositoryItem = (item: vscode.QuickPickItem): item is RepositoryQuickPickItem => 'repository' in item;
 
-  const gitRoot = await workspaceService.getGitRoot();
-  if (!gitRoot) {
-    vscode.window.showErrorMessage('No Git repository found in workspace.');
-    return;
+// 変更が無い場合 snapshot は null
+// skippedUnsavedFiles はエンコーディングを扱えず、未保存の内容を含められなかった対象範囲内のファイル
+const createRepositorySnapshot = async (
+  repository: WorkspaceRepository,
+  customDescription: string | undefined,
+  scopePaths: string[]
+): Promise<{ snapshot: SnapshotMetadata | null; skippedUnsavedFiles: string[] }> => {
+  const branchName = await repository.workspaceService.getCurrentBranch();
+
+  const config = vscode.workspace.getConfiguration('work-checkpoints');
+  const messageFormat = config.get<string>('messageFormat');
+  const dateFormat = config.get<string>('dateFormat');
+  // 有効な場合は、ディスクに保存せずにエディタの未保存の内容をスナップショットに含める
+  const unsavedFiles = config.get<boolean>('includeUnsavedChanges', false)
+    ? await collectUnsavedFiles(repository.gitRoot)
+    : { files: [], skipped: [] };
+  const skippedUnsavedFiles = unsavedFiles.skipped.filter(
+    (file) => scopePaths.length === 0 || scopePaths.some((p) => file === p || file.startsWith(`${p}/`))
+  );
+
+  try {
+    const snapshot = await repository.shadowGitService.createSnapshot(
+      branchName,
+      messageFormat,
+      dateFormat,
+      customDescription,
+      scopePaths,
+      unsavedFiles.files
+    );
+    return { snapshot, skippedUnsavedFiles };
+  } catch (error) {
+    if (error instanceof Error && error.message === 'No changes to save') {
+      return { snapshot: null, skippedUnsavedFiles };
+    }
+    throw error;
   }
+};
 
-  // Re-initialize with git root to ensure correct git operations
-  workspaceService = new WorkspaceService(gitRoot);
+const describeSnapshot = (snapshot: SnapshotMetadata, scopePaths: string[]): string => {
+  const notes = [
+    ...(scopePaths.length > 0 ? [`${scopePaths.length} path(s)`] : []),
+    ...(snapshot.unsavedFiles ? [`${snapshot.unsavedFiles.length} unsaved file(s)`] : []),
+  ];
+  return notes.length > 0 ? `${snapshot.description} (${notes.join(', ')})` : snapshot.description;
+};
 
+// リポジトリごとに保存する（scope が空のリポジトリは全体を保存する）
+// 1 つのリポジトリで失敗しても、残りのリポジトリは保存する
+const saveRepositorySnapshots = async (
+  scopes: Map<WorkspaceRepository, string[]>,
+  customDescription?: string
+): Promise<void> => {
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: 'Saving snapshot...',
+      title: scopes.size > 1 ? `Saving snapshots in ${scopes.size} repositories...` : 'Saving snapshot...',
       cancellable: false,
     },
     async () => {
-      const [branchName, remoteUrl] = await Promise.all([
-        workspaceService.getCurrentBranch(),
-        workspaceService.getRemoteOriginUrl(),
-      ]);
-
-      const config = vscode.workspace.getConfiguration('work-checkpoints');
-      const messageFormat = config.get<string>('messageFormat');
-      const dateFormat = config.get<string>('dateFormat');
-
-      const shadowGitService = new ShadowGitService(remoteUrl, gitRoot);
-
-      try {
-        const snapshot = await shadowGitService.createSnapshot(branchName, messageFormat, dateFormat, customDescription);
-        vscode.window.showInformationMessage(`Snapshot saved: ${snapshot.description}`);
-      } catch (error) {
-        if (error instanceof Error && error.message === 'No changes to save') {
-          vscode.window.showWarningMessage('No change detected. Snapshot was not created.');
-        } else {
-          throw error;
+      const saved: string[] = [];
+      const unchanged: string[] = [];
+      const skippedUnsaved: string[] = [];
+
+      for (const [repository, scope] of scopes) {
+        // ルートを含む場合はワークスペース全体のスナップショットと同じ
+        const scopePaths = scope.includes('') ? [] : [...new Set(scope)];
+        try {
+          const { snapshot, skippedUnsavedFiles } = await createRepositorySnapshot(repository, customDescription, scopePaths);
+          skippedUnsaved.push(
+            ...skippedUnsavedFiles.map((file) => (scopes.size > 1 ? `${repository.name}/${file}` : file))
+          );
+          if (snapshot) {
+            const description = describeSnapshot(snapshot, scopePaths);
+            saved.push(scopes.size > 1 ? `${repository.name}: ${description}` : description);
+          } else {
+            unchanged.push(repository.name);
+          }
+        } catch (error) {
+          const location = scopes.size > 1 ? ` in ${repository.name}` : '';
+          vscode.window.showErrorMessage(
+            `Failed to save snapshot${location}: ${error instanceof Error ? error.message : String(error)}`
+          );
         }
       }
+
+      // 未保存の内容を含められなかったファイルは、どの通知でも名前を挙げる
+      const skippedLabel =
+        skippedUnsaved.length > 0
+          ? ` Unsaved changes in ${skippedUnsaved.join(', ')} were not included because their encoding is not supported.`
+          : '';
+
+      if (saved.length === 0) {
+        if (unchanged.length > 0) {
+          vscode.window.showWarningMessage(`No change detected. Snapshot was not created.${skippedLabel}`);
+        }
+        return;
+      }
+
+      if (scopes.size === 1) {
+        vscode.window.showInformationMessage(`Snapshot saved: ${saved[0]}${skippedLabel && `.${skippedLabel}`}`);
+        return;
+      }
+      const unchangedLabel = unchanged.length > 0 ? ` No changes in ${unchanged.join(', ')}.` : '';
+      vscode.window.showInformationMessage(
+        `Saved ${saved.length} snapshot(s): ${saved.join('; ')}.${unchangedLabel}${skippedLabel}`
+      );
     }
   );
 };
+
+// 複数ある場合は保存するリポジトリを選ばせる（すべてのリポジトリも選べる）
+const pickRepositoriesToSave = async (
+  repositories: WorkspaceRepository[]
+): Promise<WorkspaceRepository[] | undefined> => {
+  if (repositories.length === 1) {
+    return repositories;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    [allRepositoriesItem, ...repositories.map(toRepositoryQuickPickItem)],
+    { placeHolder: 'Select a repository to save a snapshot of' }
+  );
+  if (!picked) {
+    return undefined;
+  }
+  return isRepositoryItem(picked) ? [picked.repository] : repositories;
+};
+
+// scopeUris を指定した場合は、そのファイル・フォルダだけを部分スナップショットとして保存する
+// 選択したファイルが複数のリポジトリにまたがる場合は、リポジトリごとに保存する
+export const saveSnapshot = async (customDescription?: string, scopeUris: vscode.Uri[] = []): Promise<void> => {
+  const repositories = await findRepositoriesOrShowError();
+  if (repositories.length === 0) {
+    return;
+  }
+
+  const scopes = new Map<WorkspaceRepository, string[]>();
+  if (scopeUris.length > 0) {
+    for (const uri of scopeUris) {
+      const repository = findRepositoryForPath(repositories, uri.fsPath);
+      const relativePath = repository ? toRelativePath(repository.gitRoot, uri) : null;
+      if (!repository || relativePath === null) {
+        vscode.window.showErrorMessage(`${uri.fsPath} is outside the Git repository.`);
+        return;
+      }
+      scopes.set(repository, [...(scopes.get(repository) ?? []), relativePath]);
+    }
+  } else {
+    const targets = await pickRepositoriesToSave(repositories);
+    if (!targets) {
+      return;
+    }
+    for (const repository of targets) {
+      scopes.set(repository, []);
+    }
+  }
+
+  await saveRepositorySnapshots(scopes, customDescription);
+};
+
+// ワークスペース内のすべてのリポジトリを一度に保存する
+export const saveAllSnapshots = async (customDescription?: string): Promise<void> => {
+  const repositories = await findRepositoriesOrShowError();
+  if (repositories.length === 0) {
+    return;
+  }
+
+  await saveRepositorySnapshots(
+    new Map(repositories.map((repository) => [repository, []])),
+    customDescription
+  );
+};
+
+// エクスプローラーで選択したファイル・フォルダを保存する。選択が無い場合はダイアログで選ぶ
+export const saveScopedSnapshot = async (uris: vscode.Uri[] = [], customDescription?: string): Promise<void> => {
+  let scopeUris = uris;
+  if (scopeUris.length === 0) {
+    const selected = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: true,
+      canSelectMany: true,
+      defaultUri: vscode.workspace.workspaceFolders?.[0].uri,
+      openLabel: 'Save Snapshot',
+      title: 'Select files or folders to save in the snapshot',
+    });
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    scopeUris = selected;
+  }
+
+  await saveSnapshot(customDescription, scopeUris);
+};
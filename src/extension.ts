@@ -1,27 +1,41 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { saveSnapshot } from './commands/saveSnapshot';
-import { restoreSnapshot } from './commands/restoreSnapshot';
+import { saveSnapshot, saveAllSnapshots, saveScopedSnapshot } from './commands/saveSnapshot';
+import { restoreSnapshot, restoreWithSafetySnapshot, showUndoableMessage } from './commands/restoreSnapshot';
 import { deleteSnapshots, deleteClaudeSnapshots } from './commands/deleteSnapshots';
+import { recoverLostSnapshots } from './commands/recoverSnapshots';
+import { compareSnapshots, showSnapshotComparison } from './commands/compareSnapshots';
+import { restoreHunks, restoreSelectedLines } from './commands/restoreHunks';
 import { SnapshotTreeProvider, SnapshotTreeItem, SnapshotFileTreeItem, SnapshotFolderTreeItem } from './views/snapshotTreeProvider';
 import { SnapshotInputViewProvider } from './views/snapshotInputViewProvider';
 import { SnapshotContentProvider } from './providers/snapshotContentProvider';
-import { AutoCleanupService } from './services/autoCleanupService';
+import { AutoCleanupService, retentionReasonLabels } from './services/autoCleanupService';
+import { AutoSnapshotService } from './services/autoSnapshotService';
+import { GitGuardService } from './services/gitGuardService';
+import { ShadowGitService } from './services/shadowGitService';
+import { RetentionCandidate, SafetySnapshot, SnapshotMetadata } from './types';
+import { EMPTY_TREE_HASH } from './utils/constants';
+import { pickWorkspaceRepository } from './utils/workspaceRepositories';
 
 let snapshotTreeProvider: SnapshotTreeProvider;
 let snapshotContentProvider: SnapshotContentProvider;
 let autoCleanupService: AutoCleanupService;
+let autoSnapshotService: AutoSnapshotService;
+let gitGuardService: GitGuardService;
+// "Select for Compare" で選ばれたスナップショット
+let snapshotSelectedForCompare: SnapshotTreeItem | null = null;
 
 export const activate = (context: vscode.ExtensionContext) => {
   console.log('Work Checkpoints extension is now active!');
 
-  // Create and register ContentProvider
+  // Create and register read-only FileSystemProvider for snapshot contents
   snapshotContentProvider = new SnapshotContentProvider();
   context.subscriptions.push(
-    vscode.workspace.registerTextDocumentContentProvider(
+    vscode.workspace.registerFileSystemProvider(
       SnapshotContentProvider.scheme,
-      snapshotContentProvider
+      snapshotContentProvider,
+      { isReadonly: true, isCaseSensitive: true }
     )
   );
 
@@ -49,6 +63,13 @@ export const activate = (context: vscode.ExtensionContext) => {
   }
   vscode.commands.executeCommand('setContext', 'workCheckpoints.showClaudeSnapshots', savedShowClaude);
 
+  // Initialize context for snapshot changes mode
+  const savedShowSnapshotChanges = context.globalState.get('work-checkpoints.showSnapshotChanges', false);
+  if (savedShowSnapshotChanges) {
+    snapshotTreeProvider.setShowSnapshotChanges(true);
+  }
+  vscode.commands.executeCommand('setContext', 'workCheckpoints.showSnapshotChanges', savedShowSnapshotChanges);
+
   // Register WebView provider for input
   const snapshotInputViewProvider = new SnapshotInputViewProvider(context.extensionUri);
   context.subscriptions.push(
@@ -59,9 +80,41 @@ export const activate = (context: vscode.ExtensionContext) => {
   );
 
   // Initialize auto-cleanup service
-  autoCleanupService = new AutoCleanupService(() => snapshotTreeProvider.getShadowGitService());
+  const outputChannel = vscode.window.createOutputChannel('Work Checkpoints');
+  context.subscriptions.push(outputChannel);
+  autoCleanupService = new AutoCleanupService(() => snapshotTreeProvider.getRepositories(), outputChannel);
   autoCleanupService.start();
 
+  // Initialize automatic snapshot triggers
+  autoSnapshotService = new AutoSnapshotService(
+    () => snapshotTreeProvider.getRepositories(),
+    () => snapshotTreeProvider.refresh()
+  );
+  autoSnapshotService.start();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration('work-checkpoints.autoSnapshotIntervalMinutes') ||
+        e.affectsConfiguration('work-checkpoints.autoSnapshotSaveCount') ||
+        e.affectsConfiguration('work-checkpoints.autoSnapshotIdleMinutes') ||
+        e.affectsConfiguration('work-checkpoints.autoSnapshotOnFocusLost')
+      ) {
+        autoSnapshotService.start();
+      }
+    })
+  );
+
+  // Take snapshots before Git operations in the main repository discard uncommitted work
+  gitGuardService = new GitGuardService(() => snapshotTreeProvider.refresh(), offerBranchWorkRestore);
+  void gitGuardService.start();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('work-checkpoints.snapshotBeforeGitOperations')) {
+        void gitGuardService.start();
+      }
+    })
+  );
+
   // Register commands
   context.subscriptions.push(
     treeView,
@@ -69,20 +122,76 @@ export const activate = (context: vscode.ExtensionContext) => {
       await saveSnapshot();
       snapshotTreeProvider.refresh();
     }),
+    vscode.commands.registerCommand('work-checkpoints.saveAllSnapshots', async () => {
+      await saveAllSnapshots();
+      snapshotTreeProvider.refresh();
+    }),
     vscode.commands.registerCommand('work-checkpoints.saveSnapshotWithDescription', async (description?: string) => {
       await saveSnapshot(description);
       snapshotTreeProvider.refresh();
     }),
-    vscode.commands.registerCommand('work-checkpoints.restoreSnapshot', restoreSnapshot),
+    // エクスプローラーからは (クリックした項目, 選択中の全項目) が渡される
+    vscode.commands.registerCommand(
+      'work-checkpoints.saveScopedSnapshot',
+      async (uri?: vscode.Uri, uris?: vscode.Uri[], description?: string) => {
+        await saveScopedSnapshot(uris ?? (uri ? [uri] : []), description);
+        snapshotTreeProvider.refresh();
+      }
+    ),
+    vscode.commands.registerCommand('work-checkpoints.restoreSnapshot', async () => {
+      await restoreSnapshot();
+      snapshotTreeProvider.refresh();
+    }),
     vscode.commands.registerCommand('work-checkpoints.deleteSnapshots', async () => {
       await deleteSnapshots();
       snapshotTreeProvider.refresh();
     }),
+    vscode.commands.registerCommand('work-checkpoints.recoverLostSnapshots', async () => {
+      await recoverLostSnapshots();
+      snapshotTreeProvider.refresh();
+    }),
+    vscode.commands.registerCommand('work-checkpoints.compactStorage', async () => {
+      await compactStorage();
+      snapshotTreeProvider.refresh();
+    }),
+    vscode.commands.registerCommand('work-checkpoints.previewCleanup', async () => {
+      await previewCleanup(outputChannel);
+      snapshotTreeProvider.refresh();
+    }),
+    vscode.commands.registerCommand('work-checkpoints.compareSnapshots', async () => {
+      await compareSnapshots();
+    }),
+    vscode.commands.registerCommand('work-checkpoints.selectForCompare', (item: SnapshotTreeItem) => {
+      snapshotSelectedForCompare = item;
+      vscode.commands.executeCommand('setContext', 'workCheckpoints.hasSnapshotSelectedForCompare', true);
+    }),
+    vscode.commands.registerCommand('work-checkpoints.compareWithSelected', async (item: SnapshotTreeItem) => {
+      await compareWithSelected(item);
+    }),
     vscode.commands.registerCommand('work-checkpoints.refresh', () => {
       snapshotTreeProvider.refresh();
     }),
+    vscode.commands.registerCommand('work-checkpoints.loadMoreSnapshots', (gitRoot?: string) => {
+      snapshotTreeProvider.loadMore(gitRoot);
+    }),
+    vscode.commands.registerCommand('work-checkpoints.undoLastRestore', async () => {
+      await undoLastRestore();
+      snapshotTreeProvider.refresh();
+    }),
     vscode.commands.registerCommand('work-checkpoints.restoreItem', async (item: SnapshotTreeItem) => {
       await restoreSnapshotItem(item);
+      snapshotTreeProvider.refresh();
+    }),
+    vscode.commands.registerCommand('work-checkpoints.mergeItem', async (item: SnapshotTreeItem) => {
+      await mergeFromSnapshot(
+        item.gitRoot,
+        item.snapshot.id,
+        item.snapshot.scope ?? [],
+        `snapshot "${item.snapshot.description}"`
+      );
+    }),
+    vscode.commands.registerCommand('work-checkpoints.mergeFileItem', async (item: SnapshotFileTreeItem) => {
+      await mergeFromSnapshot(item.gitRoot, item.snapshotId, [item.snapshotFilePath], `"${item.snapshotFilePath}"`);
     }),
     vscode.commands.registerCommand('work-checkpoints.deleteItem', async (item: SnapshotTreeItem) => {
       await deleteSnapshotItem(item);
@@ -103,9 +212,18 @@ export const activate = (context: vscode.ExtensionContext) => {
     vscode.commands.registerCommand('work-checkpoints.showFileDiff', async (item: SnapshotFileTreeItem) => {
       await showFileDiff(item);
     }),
+    vscode.commands.registerCommand('work-checkpoints.openAllChanges', async (item: SnapshotTreeItem | SnapshotFolderTreeItem) => {
+      await openAllChanges(item);
+    }),
     vscode.commands.registerCommand('work-checkpoints.restoreFileItem', async (item: SnapshotFileTreeItem) => {
       await restoreFileItem(item);
     }),
+    vscode.commands.registerCommand('work-checkpoints.restoreHunksItem', async (item: SnapshotFileTreeItem) => {
+      await restoreHunksItem(item);
+    }),
+    vscode.commands.registerCommand('work-checkpoints.restoreSelectedLines', async () => {
+      await restoreSelectedLines((repoIdentifier) => snapshotContentProvider.getShadowGitService(repoIdentifier));
+    }),
     vscode.commands.registerCommand('work-checkpoints.deleteFileItem', async (item: SnapshotFileTreeItem) => {
       await deleteFileItem(item);
     }),
@@ -146,6 +264,16 @@ export const activate = (context: vscode.ExtensionContext) => {
       vscode.commands.executeCommand('setContext', 'workCheckpoints.showClaudeSnapshots', false);
       context.globalState.update('work-checkpoints.showClaudeSnapshots', false);
     }),
+    vscode.commands.registerCommand('work-checkpoints.showSnapshotChanges', () => {
+      snapshotTreeProvider.setShowSnapshotChanges(true);
+      vscode.commands.executeCommand('setContext', 'workCheckpoints.showSnapshotChanges', true);
+      context.globalState.update('work-checkpoints.showSnapshotChanges', true);
+    }),
+    vscode.commands.registerCommand('work-checkpoints.showWorkspaceChanges', () => {
+      snapshotTreeProvider.setShowSnapshotChanges(false);
+      vscode.commands.executeCommand('setContext', 'workCheckpoints.showSnapshotChanges', false);
+      context.globalState.update('work-checkpoints.showSnapshotChanges', false);
+    }),
     vscode.commands.registerCommand('work-checkpoints.deleteAll', async () => {
       await deleteAllSnapshots();
       snapshotTreeProvider.refresh();
@@ -163,52 +291,101 @@ export const activate = (context: vscode.ExtensionContext) => {
   context.subscriptions.push(
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
       snapshotTreeProvider.refresh();
+      void gitGuardService.start();
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('work-checkpoints.showSafetySnapshots')) {
+        snapshotTreeProvider.refresh();
+      }
     })
   );
 };
 
 
+// ツリー項目と同じリポジトリのスナップショットを指す URI
+const createSnapshotUri = (repositoryRoot: string | undefined, snapshotId: string, filePath: string): vscode.Uri =>
+  SnapshotContentProvider.createUri(
+    snapshotId,
+    filePath,
+    snapshotTreeProvider.getShadowGitService(repositoryRoot)?.repoIdentifier
+  );
+
 const restoreSnapshotItem = async (item: SnapshotTreeItem): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
-  const workspaceService = snapshotTreeProvider.getWorkspaceService();
+  await restoreSnapshotWithPreview(item.snapshot, item.gitRoot);
+};
+
+// ツリー項目や通知から、指定リポジトリのスナップショットを復元する
+const restoreSnapshotWithPreview = async (snapshot: SnapshotMetadata, repositoryRoot?: string): Promise<void> => {
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(repositoryRoot);
+  const workspaceService = snapshotTreeProvider.getWorkspaceService(repositoryRoot);
 
   if (!shadowGitService || !workspaceService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
     return;
   }
 
-  // Check for uncommitted changes
-  const hasChanges = await workspaceService.hasUncommittedChanges();
-  if (hasChanges) {
-    const confirm = await vscode.window.showWarningMessage(
-      'You have uncommitted changes. Restoring will overwrite your current work.',
-      { modal: true },
-      'Restore Anyway'
-    );
+  const gitRoot = await workspaceService.getGitRoot();
+  if (!gitRoot) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+    return;
+  }
 
-    if (confirm !== 'Restore Anyway') {
-      return;
-    }
+  await restoreWithSafetySnapshot(shadowGitService, workspaceService, snapshot, gitRoot);
+};
+
+// ブランチを切り替えたとき、切り替え先のブランチで最後に記録した作業を復元するか尋ねる
+// 復元する場合も、対象のファイルを一覧で確認してからでないと上書きしない
+const offerBranchWorkRestore = async (repositoryRoot: string, branchName: string): Promise<void> => {
+  const config = vscode.workspace.getConfiguration('work-checkpoints');
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(repositoryRoot);
+  if (!config.get<boolean>('offerBranchWorkRestore', true) || !shadowGitService) {
+    return;
   }
 
-  await vscode.window.withProgress(
-    {
-      location: vscode.ProgressLocation.Notification,
-      title: 'Restoring snapshot...',
-      cancellable: false,
-    },
-    async () => {
-      await shadowGitService.restoreSnapshot(item.snapshot.id);
+  const snapshot = await shadowGitService.getLatestSnapshotForBranch(branchName);
+  if (!snapshot) {
+    return;
+  }
+  const changes = await shadowGitService.previewRestore(snapshot.id, snapshot.scope);
+  if (changes.length === 0) {
+    return;
+  }
 
-      vscode.window.showInformationMessage(
-        `Snapshot restored: ${item.snapshot.description}`
-      );
-    }
+  // マルチルートのワークスペースでは、どのリポジトリの切り替えかを示す
+  const repository = snapshotTreeProvider.getRepository(repositoryRoot);
+  const location = repository && snapshotTreeProvider.getRepositories().length > 1 ? ` in ${repository.name}` : '';
+  const choice = await vscode.window.showInformationMessage(
+    `Switched to "${branchName}"${location}. Restore its latest snapshot "${snapshot.description}"? ${changes.length} file(s) would change.`,
+    'Review Files…'
   );
+  if (choice) {
+    await restoreSnapshotWithPreview(snapshot, repositoryRoot);
+    snapshotTreeProvider.refresh();
+  }
+};
+
+const compareWithSelected = async (item: SnapshotTreeItem): Promise<void> => {
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+
+  if (!shadowGitService) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+    return;
+  }
+
+  if (!snapshotSelectedForCompare) {
+    vscode.window.showErrorMessage('Select a snapshot for compare first.');
+    return;
+  }
+  if (snapshotSelectedForCompare.gitRoot !== item.gitRoot) {
+    vscode.window.showErrorMessage('Snapshots can only be compared within the same repository.');
+    return;
+  }
+
+  await showSnapshotComparison(shadowGitService, snapshotSelectedForCompare.snapshot, item.snapshot);
 };
 
 const renameSnapshotItem = async (item: SnapshotTreeItem): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
 
   if (!shadowGitService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -229,7 +406,7 @@ const renameSnapshotItem = async (item: SnapshotTreeItem): Promise<void> => {
 };
 
 const toggleFavoriteItem = async (item: SnapshotTreeItem): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
 
   if (!shadowGitService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -244,7 +421,7 @@ const toggleFavoriteItem = async (item: SnapshotTreeItem): Promise<void> => {
 };
 
 const removeFavoriteItem = async (item: SnapshotTreeItem): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
 
   if (!shadowGitService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -256,7 +433,7 @@ const removeFavoriteItem = async (item: SnapshotTreeItem): Promise<void> => {
 };
 
 const deleteSnapshotItem = async (item: SnapshotTreeItem): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
 
   if (!shadowGitService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -287,13 +464,13 @@ const deleteSnapshotItem = async (item: SnapshotTreeItem): Promise<void> => {
 };
 
 const deleteAllSnapshots = async (): Promise<void> => {
-  const shadowGitService = snapshotTreeProvider.getShadowGitService();
-
-  if (!shadowGitService) {
-    vscode.window.showErrorMessage('No Git repository found in workspace.');
+  const repository = await pickWorkspaceRepository('Select a repository to delete all snapshots from');
+  if (!repository) {
     return;
   }
 
+  const { shadowGitService } = repository;
+
   const snapshots = await shadowGitService.listSnapshots();
   if (snapshots.length === 0) {
     vscode.window.showInformationMessage('No snapshots to delete.');
@@ -326,8 +503,146 @@ const deleteAllSnapshots = async (): Promise<void> => {
   vscode.window.showInformationMessage(`Deleted ${snapshots.length} snapshot(s).`);
 };
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const compactStorage = async (): Promise<void> => {
+  const repository = await pickWorkspaceRepository('Select a repository to compact the snapshot storage of');
+  if (!repository) {
+    return;
+  }
+
+  const { shadowGitService } = repository;
+
+  const confirm = await vscode.window.showWarningMessage(
+    'Compact snapshot storage? Deleted snapshots and lost snapshots that have not been recovered will be removed permanently.',
+    { modal: true },
+    'Compact'
+  );
+
+  if (confirm !== 'Compact') {
+    return;
+  }
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Compacting snapshot storage...',
+        cancellable: false,
+      },
+      async () => {
+        return await shadowGitService.compactStorage(true);
+      }
+    );
+
+    const reclaimed = Math.max(0, result.sizeBefore - result.sizeAfter);
+    vscode.window.showInformationMessage(
+      `Storage compacted: removed ${result.removedCount} deleted snapshot(s), reclaimed ${formatBytes(reclaimed)} (now ${formatBytes(result.sizeAfter)}).`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to compact storage: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+// 現在の保持設定で削除されるスナップショットを一覧表示し、確認してから削除する
+const previewCleanup = async (outputChannel: vscode.OutputChannel): Promise<void> => {
+  const repository = await pickWorkspaceRepository('Select a repository to preview cleanup for');
+  if (!repository) {
+    return;
+  }
+
+  let candidates: RetentionCandidate[];
+  try {
+    candidates = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Checking retention settings...',
+        cancellable: false,
+      },
+      async () => {
+        return await autoCleanupService.planCleanup(repository);
+      }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to preview cleanup: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  if (candidates.length === 0) {
+    vscode.window.showInformationMessage('No snapshots would be deleted by the current retention settings.');
+    return;
+  }
+
+  const deleteItem: vscode.QuickPickItem = {
+    label: `$(trash) Delete ${candidates.length} Snapshot(s)`,
+    detail: 'Favorites are never deleted.',
+    alwaysShow: true,
+  };
+  const items: vscode.QuickPickItem[] = [
+    deleteItem,
+    { label: 'Would be deleted', kind: vscode.QuickPickItemKind.Separator },
+    ...candidates.map(({ snapshot, reason }) => ({
+      label: snapshot.description,
+      description: `[${snapshot.branchName}] ${snapshot.timestamp.toLocaleString()}`,
+      detail: `ID: ${snapshot.id} · ${retentionReasonLabels[reason]}`,
+    })),
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `Cleanup Preview: ${candidates.length} snapshot(s) would be deleted`,
+    placeHolder: 'Select "Delete" to apply the retention settings now',
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (picked !== deleteItem) {
+    return;
+  }
+
+  // 容量の上限は圧縮しないと容量が減らないため、圧縮するかどうかを確認する
+  let compact = false;
+  if (candidates.some(({ reason }) => reason === 'size')) {
+    const choice = await vscode.window.showWarningMessage(
+      'Some snapshots are deleted to stay under the storage limit, which only frees disk space after compacting storage. Compacting removes deleted snapshots and lost snapshots that have not been recovered permanently.',
+      { modal: true },
+      'Delete and Compact',
+      'Delete Only'
+    );
+    if (!choice) {
+      return;
+    }
+    compact = choice === 'Delete and Compact';
+  }
+
+  try {
+    await autoCleanupService.deleteSnapshots(repository, candidates, compact);
+    const action = await vscode.window.showInformationMessage(
+      `Deleted ${candidates.length} snapshot(s).`,
+      'Show Log'
+    );
+    if (action === 'Show Log') {
+      outputChannel.show();
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to delete snapshots: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
 const showFileDiff = async (item: SnapshotFileTreeItem): Promise<void> => {
-  const workspaceService = snapshotTreeProvider.getWorkspaceService();
+  const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
   if (!workspaceService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -340,7 +655,19 @@ const showFileDiff = async (item: SnapshotFileTreeItem): Promise<void> => {
     return;
   }
 
-  const snapshotUri = SnapshotContentProvider.createUri(item.snapshotId, item.filePath);
+  const snapshotUri = createSnapshotUri(item.gitRoot, item.snapshotId, item.snapshotFilePath);
+
+  // 変更表示モードでは、このスナップショットで何が変わったかを表示する
+  if (item.compareBaseId) {
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      createSnapshotUri(item.gitRoot, item.compareBaseId, item.diffInfo?.oldFile ?? item.filePath),
+      snapshotUri,
+      `${item.filePath} (Previous ↔ Snapshot)`
+    );
+    return;
+  }
+
   const currentFileUri = vscode.Uri.file(path.join(gitRoot, item.filePath));
 
   await vscode.commands.executeCommand(
@@ -351,10 +678,66 @@ const showFileDiff = async (item: SnapshotFileTreeItem): Promise<void> => {
   );
 };
 
+// スナップショット全体、またはフォルダ内の変更ファイルをまとめてマルチ差分エディタで開く
+const openAllChanges = async (item: SnapshotTreeItem | SnapshotFolderTreeItem): Promise<void> => {
+  const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
+
+  if (!workspaceService) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+    return;
+  }
+
+  const gitRoot = await workspaceService.getGitRoot();
+  if (!gitRoot) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+    return;
+  }
+
+  const { snapshotId, label, diffFiles, compareBaseId } =
+    item instanceof SnapshotTreeItem
+      ? {
+          snapshotId: item.snapshot.id,
+          label: item.snapshot.description,
+          ...(await snapshotTreeProvider.getSnapshotChanges(item.snapshot, item.gitRoot)),
+        }
+      : {
+          snapshotId: item.snapshotId,
+          label: `${item.folderPath}/`,
+          diffFiles: item.childDiffFiles,
+          compareBaseId: item.compareBaseId,
+        };
+
+  if (diffFiles.length === 0) {
+    vscode.window.showInformationMessage('No changes to show.');
+    return;
+  }
+
+  // 片方に存在しないファイルは空のツリーの URI と比較し、空の内容として表示する
+  const emptyUri = (file: string) => createSnapshotUri(item.gitRoot, EMPTY_TREE_HASH, file);
+  const changes: [vscode.Uri, vscode.Uri, vscode.Uri][] = diffFiles.map((diffFile) => {
+    const currentFileUri = vscode.Uri.file(path.join(gitRoot, diffFile.file));
+    const snapshotUri = createSnapshotUri(item.gitRoot, snapshotId, diffFile.file);
+
+    if (compareBaseId) {
+      return [currentFileUri, createSnapshotUri(item.gitRoot, compareBaseId, diffFile.oldFile ?? diffFile.file), snapshotUri];
+    }
+    return [
+      currentFileUri,
+      diffFile.status === 'added'
+        ? emptyUri(diffFile.file)
+        : createSnapshotUri(item.gitRoot, snapshotId, diffFile.oldFile ?? diffFile.file),
+      diffFile.status === 'deleted' ? emptyUri(diffFile.file) : currentFileUri,
+    ];
+  });
+
+  const title = compareBaseId ? `${label} (Previous ↔ Snapshot)` : `${label} (Snapshot vs Current)`;
+  await vscode.commands.executeCommand('vscode.changes', title, changes);
+};
+
 const restoreFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
   try {
-    const shadowGitService = snapshotTreeProvider.getShadowGitService();
-    const workspaceService = snapshotTreeProvider.getWorkspaceService();
+    const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+    const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
     if (!shadowGitService || !workspaceService) {
       vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -367,8 +750,18 @@ const restoreFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
       return;
     }
 
+    // 安全用スナップショットを取る前に、スナップショット側にファイルがあるか確かめる
+    if (!(await shadowGitService.getSnapshotFileBuffer(item.snapshotId, item.snapshotFilePath))) {
+      vscode.window.showErrorMessage('File not found in snapshot.');
+      return;
+    }
+
+    // 移動されたファイルは元のパスに戻し、移動先のファイルを削除する
+    const isMovedBack = item.snapshotFilePath !== item.filePath;
     const confirm = await vscode.window.showWarningMessage(
-      `Restore "${item.filePath}" from snapshot? This will overwrite the current file.`,
+      isMovedBack
+        ? `Move "${item.filePath}" back to "${item.snapshotFilePath}" and restore it from snapshot? This will overwrite the file at the original path.`
+        : `Restore "${item.filePath}" from snapshot? This will overwrite the current file.`,
       { modal: true },
       'Restore'
     );
@@ -380,24 +773,22 @@ const restoreFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: `Restoring file: ${item.filePath}`,
+        title: `Restoring file: ${item.snapshotFilePath}`,
         cancellable: false,
       },
       async () => {
-        const content = await shadowGitService.getSnapshotFileContent(item.snapshotId, item.filePath);
-
-        if (!content) {
-          vscode.window.showErrorMessage('File not found in snapshot.');
-          return;
+        const branchName = await workspaceService.getCurrentBranch();
+        const affectedPaths = isMovedBack ? [item.snapshotFilePath, item.filePath] : [item.filePath];
+        await shadowGitService.createSafetySnapshot('restore-files', affectedPaths, branchName, `Before restoring ${item.snapshotFilePath}`);
+        if (isMovedBack) {
+          await shadowGitService.restoreRenamedFile(item.snapshotId, item.snapshotFilePath, item.filePath);
+        } else {
+          await shadowGitService.restoreSnapshotFiles(item.snapshotId, [item.filePath]);
         }
-
-        const fullPath = path.join(gitRoot, item.filePath);
-        await fs.mkdir(path.dirname(fullPath), { recursive: true });
-        await fs.writeFile(fullPath, content);
-
-        vscode.window.showInformationMessage(`File restored: ${item.filePath}`);
       }
     );
+
+    void showUndoableMessage(`File restored: ${item.snapshotFilePath}`);
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to restore file: ${error instanceof Error ? error.message : String(error)}`
@@ -405,10 +796,11 @@ const restoreFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
   }
 };
 
-const deleteFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
-  const workspaceService = snapshotTreeProvider.getWorkspaceService();
+const restoreHunksItem = async (item: SnapshotFileTreeItem): Promise<void> => {
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+  const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
-  if (!workspaceService) {
+  if (!shadowGitService || !workspaceService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
     return;
   }
@@ -419,39 +811,65 @@ const deleteFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
     return;
   }
 
-  const fullPath = path.join(gitRoot, item.filePath);
+  await restoreHunks(shadowGitService, item.snapshotId, item.snapshotFilePath, vscode.Uri.file(path.join(gitRoot, item.filePath)));
+};
 
+const deleteFileItem = async (item: SnapshotFileTreeItem): Promise<void> => {
   try {
-    await fs.access(fullPath);
-  } catch {
-    vscode.window.showWarningMessage(`File does not exist: ${item.filePath}`);
-    return;
-  }
+    const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+    const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
-  const confirm = await vscode.window.showWarningMessage(
-    `Delete "${item.filePath}" from workspace? This action cannot be undone.`,
-    { modal: true },
-    'Delete'
-  );
+    if (!shadowGitService || !workspaceService) {
+      vscode.window.showErrorMessage('No Git repository found in workspace.');
+      return;
+    }
 
-  if (confirm !== 'Delete') {
-    return;
-  }
+    const gitRoot = await workspaceService.getGitRoot();
+    if (!gitRoot) {
+      vscode.window.showErrorMessage('No Git repository found in workspace.');
+      return;
+    }
+
+    const fullPath = path.join(gitRoot, item.filePath);
+
+    try {
+      await fs.access(fullPath);
+    } catch {
+      vscode.window.showWarningMessage(`File does not exist: ${item.filePath}`);
+      return;
+    }
 
-  await fs.unlink(fullPath);
-  vscode.window.showInformationMessage(`File deleted: ${item.filePath}`);
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete "${item.filePath}" from workspace? You can bring it back with "Undo Last Restore/Delete".`,
+      { modal: true },
+      'Delete'
+    );
+
+    if (confirm !== 'Delete') {
+      return;
+    }
+
+    const branchName = await workspaceService.getCurrentBranch();
+    await shadowGitService.createSafetySnapshot('delete-files', [item.filePath], branchName, `Before deleting ${item.filePath}`);
+    await fs.unlink(fullPath);
+    void showUndoableMessage(`File deleted: ${item.filePath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to delete file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
 };
 
 const openFileAtRevision = async (item: SnapshotFileTreeItem): Promise<void> => {
-  const snapshotUri = SnapshotContentProvider.createUri(item.snapshotId, item.filePath);
+  const snapshotUri = createSnapshotUri(item.gitRoot, item.snapshotId, item.snapshotFilePath);
   const doc = await vscode.workspace.openTextDocument(snapshotUri);
   await vscode.window.showTextDocument(doc, { preview: true });
 };
 
 const restoreFolderItem = async (item: SnapshotFolderTreeItem): Promise<void> => {
   try {
-    const shadowGitService = snapshotTreeProvider.getShadowGitService();
-    const workspaceService = snapshotTreeProvider.getWorkspaceService();
+    const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+    const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
     if (!shadowGitService || !workspaceService) {
       vscode.window.showErrorMessage('No Git repository found in workspace.');
@@ -474,38 +892,34 @@ const restoreFolderItem = async (item: SnapshotFolderTreeItem): Promise<void> =>
       return;
     }
 
-    await vscode.window.withProgress(
+    const restoredCount = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: `Restoring folder: ${item.folderPath}`,
         cancellable: false,
       },
-      async (progress) => {
-        let restoredCount = 0;
-        for (let i = 0; i < item.childPaths.length; i++) {
-          const filePath = item.childPaths[i];
-
-          progress.report({
-            message: `Restoring folder: ${item.folderPath} (${i + 1}/${item.childPaths.length})`,
-            increment: (100 / item.childPaths.length)
-          });
-
-          try {
-            const content = await shadowGitService.getSnapshotFileContent(item.snapshotId, filePath);
-            if (content) {
-              const fullPath = path.join(gitRoot, filePath);
-              await fs.mkdir(path.dirname(fullPath), { recursive: true });
-              await fs.writeFile(fullPath, content);
-              restoredCount++;
-            }
-          } catch (error) {
-            // Continue with other files if one fails
+      async () => {
+        // ワークスペースとの比較で移動と判定されたファイルは元のパスに戻す
+        const renamedFiles = item.compareBaseId ? [] : item.childDiffFiles.filter((diffFile) => diffFile.oldFile);
+        const renamedPaths = new Set(renamedFiles.map((diffFile) => diffFile.file));
+        const affectedPaths = [...item.childPaths, ...renamedFiles.map((diffFile) => diffFile.oldFile!)];
+
+        const branchName = await workspaceService.getCurrentBranch();
+        await shadowGitService.createSafetySnapshot('restore-files', affectedPaths, branchName, `Before restoring ${item.folderPath}/`);
+        let restoredCount = await shadowGitService.restoreSnapshotFiles(
+          item.snapshotId,
+          item.childPaths.filter((childPath) => !renamedPaths.has(childPath))
+        );
+        for (const diffFile of renamedFiles) {
+          if (await shadowGitService.restoreRenamedFile(item.snapshotId, diffFile.oldFile!, diffFile.file)) {
+            restoredCount++;
           }
         }
+        return restoredCount;
       }
     );
 
-    vscode.window.showInformationMessage(`Folder restored: ${item.folderPath} (${item.childPaths.length} files)`);
+    void showUndoableMessage(`Folder restored: ${item.folderPath} (${restoredCount} files)`);
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to restore folder: ${error instanceof Error ? error.message : String(error)}`
@@ -514,9 +928,83 @@ const restoreFolderItem = async (item: SnapshotFolderTreeItem): Promise<void> =>
 };
 
 const deleteFolderItem = async (item: SnapshotFolderTreeItem): Promise<void> => {
-  const workspaceService = snapshotTreeProvider.getWorkspaceService();
+  try {
+    const shadowGitService = snapshotTreeProvider.getShadowGitService(item.gitRoot);
+    const workspaceService = snapshotTreeProvider.getWorkspaceService(item.gitRoot);
 
-  if (!workspaceService) {
+    if (!shadowGitService || !workspaceService) {
+      vscode.window.showErrorMessage('No Git repository found in workspace.');
+      return;
+    }
+
+    const gitRoot = await workspaceService.getGitRoot();
+    if (!gitRoot) {
+      vscode.window.showErrorMessage('No Git repository found in workspace.');
+      return;
+    }
+
+    const fullPath = path.join(gitRoot, item.folderPath);
+
+    try {
+      await fs.access(fullPath);
+    } catch {
+      vscode.window.showWarningMessage(`Folder does not exist: ${item.folderPath}`);
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete folder "${item.folderPath}" from workspace? You can bring it back with "Undo Last Restore/Delete" (ignored files are not kept).`,
+      { modal: true },
+      'Delete'
+    );
+
+    if (confirm !== 'Delete') {
+      return;
+    }
+
+    const branchName = await workspaceService.getCurrentBranch();
+    await shadowGitService.createSafetySnapshot('delete-files', [item.folderPath], branchName, `Before deleting ${item.folderPath}/`);
+    await fs.rm(fullPath, { recursive: true });
+    void showUndoableMessage(`Folder deleted: ${item.folderPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to delete folder: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+// 競合したファイルをマージエディタで開く（入力1 = マージ前の現在の内容、入力2 = スナップショット）
+const openMergeEditor = async (
+  gitRoot: string,
+  file: string,
+  baseId: string,
+  currentId: string,
+  snapshotId: string
+): Promise<void> => {
+  const output = vscode.Uri.file(path.join(gitRoot, file));
+  try {
+    await vscode.commands.executeCommand('_open.mergeEditor', {
+      base: createSnapshotUri(gitRoot, baseId, file),
+      input1: { uri: createSnapshotUri(gitRoot, currentId, file), title: 'Current' },
+      input2: { uri: createSnapshotUri(gitRoot, snapshotId, file), title: 'Snapshot', description: snapshotId },
+      output,
+    });
+  } catch {
+    // _open.mergeEditor は公開 API ではないため、使えない場合は競合マーカー付きのファイルをそのまま開く
+    await vscode.commands.executeCommand('vscode.open', output);
+  }
+};
+
+const mergeFromSnapshot = async (
+  repositoryRoot: string | undefined,
+  snapshotId: string,
+  paths: string[],
+  label: string
+): Promise<void> => {
+  const shadowGitService = snapshotTreeProvider.getShadowGitService(repositoryRoot);
+  const workspaceService = snapshotTreeProvider.getWorkspaceService(repositoryRoot);
+
+  if (!shadowGitService || !workspaceService) {
     vscode.window.showErrorMessage('No Git repository found in workspace.');
     return;
   }
@@ -527,31 +1015,147 @@ const deleteFolderItem = async (item: SnapshotFolderTreeItem): Promise<void> =>
     return;
   }
 
-  const fullPath = path.join(gitRoot, item.folderPath);
+  const confirm = await vscode.window.showWarningMessage(
+    `Merge ${label} into your current files? Changes made since the snapshot are kept, and conflicts open in the merge editor.`,
+    { modal: true },
+    'Merge'
+  );
+  if (confirm !== 'Merge') {
+    return;
+  }
 
   try {
-    await fs.access(fullPath);
-  } catch {
-    vscode.window.showWarningMessage(`Folder does not exist: ${item.folderPath}`);
-    return;
+    const { safetyId, result } = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Merging ${label}...`,
+        cancellable: false,
+      },
+      async () => {
+        const branchName = await workspaceService.getCurrentBranch();
+        // 安全用スナップショットは Undo に加えて、マージエディタの「現在の内容」としても使う
+        const safetyId = await shadowGitService.createSafetySnapshot(
+          paths.length > 0 ? 'restore-files' : 'restore',
+          paths,
+          branchName,
+          `Before merging ${label}`
+        );
+        return { safetyId, result: await shadowGitService.mergeFromSnapshot(snapshotId, paths) };
+      }
+    );
+
+    // 削除と変更がぶつかったファイルは競合として名前を挙げ、どちらを残すかは利用者に任せる
+    const unmergedMessage = [
+      result.deleteConflicted.length > 0
+        ? `${result.deleteConflicted.length} file(s) were deleted on one side and changed on the other, and were left as they are: ${result.deleteConflicted.join(', ')}.`
+        : '',
+      result.skipped.length > 0
+        ? `${result.skipped.length} binary file(s) or symbolic link(s) could not be merged and were left unchanged: ${result.skipped.join(', ')}.`
+        : '',
+    ]
+      .filter(Boolean)
+      .map((message) => ` ${message}`)
+      .join('');
+
+    if (result.merged.length === 0 && result.conflicted.length === 0) {
+      if (unmergedMessage) {
+        vscode.window.showWarningMessage(`Nothing was merged.${unmergedMessage}`);
+      } else {
+        vscode.window.showInformationMessage('Nothing to merge: your current files already include the snapshot changes.');
+      }
+      return;
+    }
+
+    if (result.conflicted.length === 0) {
+      void showUndoableMessage(`Merged ${result.merged.length} file(s) from snapshot.${unmergedMessage}`);
+      return;
+    }
+
+    for (const file of result.conflicted) {
+      await openMergeEditor(gitRoot, file, result.baseId, safetyId, snapshotId);
+    }
+    void showUndoableMessage(
+      `Merged ${result.merged.length + result.conflicted.length} file(s) from snapshot; ${result.conflicted.length} have conflicts to resolve.${unmergedMessage}`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to merge from snapshot: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
+};
 
-  const confirm = await vscode.window.showWarningMessage(
-    `Delete folder "${item.folderPath}" from workspace? This action cannot be undone.`,
-    { modal: true },
-    'Delete'
-  );
+// リポジトリが複数ある場合は、最後に復元・削除を行ったリポジトリの操作を取り消す
+const undoLastRestore = async (): Promise<void> => {
+  const repositories = snapshotTreeProvider.getRepositories();
 
-  if (confirm !== 'Delete') {
+  if (repositories.length === 0) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
     return;
   }
 
-  await fs.rm(fullPath, { recursive: true });
-  vscode.window.showInformationMessage(`Folder deleted: ${item.folderPath}`);
+  try {
+    const latest = await Promise.all(
+      repositories.map(async ({ shadowGitService }) => ({
+        shadowGitService,
+        safety: await shadowGitService.getLatestSafetySnapshot(),
+      }))
+    );
+    let shadowGitService: ShadowGitService | null = null;
+    let safety: SafetySnapshot | null = null;
+    for (const candidate of latest) {
+      if (candidate.safety && (!safety || candidate.safety.timestamp > safety.timestamp)) {
+        shadowGitService = candidate.shadowGitService;
+        safety = candidate.safety;
+      }
+    }
+    if (!shadowGitService || !safety) {
+      vscode.window.showInformationMessage('Nothing to undo.');
+      return;
+    }
+
+    const target =
+      safety.paths.length === 0
+        ? 'the whole workspace'
+        : safety.paths.length === 1
+          ? `"${safety.paths[0]}"`
+          : `${safety.paths.length} files`;
+    const confirm = await vscode.window.showWarningMessage(
+      `Undo the action taken at ${safety.timestamp.toLocaleString()} (${safety.description})? This puts ${target} back as it was.`,
+      { modal: true },
+      'Undo'
+    );
+
+    if (confirm !== 'Undo') {
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Undoing last restore/delete...',
+        cancellable: false,
+      },
+      async () => {
+        await shadowGitService.undoSafetySnapshot(safety);
+      }
+    );
+
+    vscode.window.showInformationMessage(`Undone: ${safety.description}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to undo: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
 };
 
 export const deactivate = () => {
   if (autoCleanupService) {
     autoCleanupService.stop();
   }
+  if (autoSnapshotService) {
+    autoSnapshotService.stop();
+  }
+  if (gitGuardService) {
+    gitGuardService.stop();
+  }
 };
@@ -1,32 +1,89 @@
 import * as vscode from 'vscode';
 import { ShadowGitService } from '../services/shadowGitService';
 
-export class SnapshotContentProvider implements vscode.TextDocumentContentProvider {
+// スナップショット内のファイルを読み取り専用のファイルシステムとして提供する
+// バイト列のまま渡すことで、エンコーディングの判定を VS Code に任せる
+// マルチルートのワークスペースでは、URI の authority でシャドウリポジトリを区別する
+export class SnapshotContentProvider implements vscode.FileSystemProvider {
   static readonly scheme = 'snapshot';
 
-  private shadowGitService: ShadowGitService | null = null;
+  private shadowGitServices: ShadowGitService[] = [];
+  private onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
 
-  setShadowGitService(service: ShadowGitService | null): void {
-    this.shadowGitService = service;
+  setShadowGitServices(services: ShadowGitService[]): void {
+    this.shadowGitServices = services;
   }
 
-  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-    if (!this.shadowGitService) {
-      return '';
-    }
+  // authority の無い URI は最初のリポジトリのものとして扱う
+  getShadowGitService(repoIdentifier: string): ShadowGitService | null {
+    return (
+      this.shadowGitServices.find((service) => service.repoIdentifier === repoIdentifier) ??
+      (repoIdentifier ? null : (this.shadowGitServices[0] ?? null))
+    );
+  }
 
-    // URI format: snapshot:{snapshotId}/{filePath}
-    const [snapshotId, ...pathParts] = uri.path.split('/');
-    const filePath = pathParts.join('/');
+  private readSnapshotFile = async (uri: vscode.Uri): Promise<Uint8Array> => {
+    const { repoIdentifier, snapshotId, filePath } = SnapshotContentProvider.parseUri(uri);
+    const shadowGitService = this.getShadowGitService(repoIdentifier);
+    if (!shadowGitService) {
+      return new Uint8Array();
+    }
 
     try {
-      return await this.shadowGitService.getSnapshotFileContent(snapshotId, filePath);
+      // スナップショットに存在しないファイル（追加されたファイルの差分など）は空として扱う
+      return (await shadowGitService.getSnapshotFileBuffer(snapshotId, filePath)) ?? new Uint8Array();
     } catch {
-      return '';
+      return new Uint8Array();
     }
+  };
+
+  watch(): vscode.Disposable {
+    // スナップショットの内容は変化しない
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const content = await this.readSnapshotFile(uri);
+    return { type: vscode.FileType.File, ctime: 0, mtime: 0, size: content.byteLength };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    return await this.readSnapshotFile(uri);
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  static parseUri(uri: vscode.Uri): { repoIdentifier: string; snapshotId: string; filePath: string } {
+    // URI format: snapshot://{repoIdentifier}/{snapshotId}/{filePath}
+    const [snapshotId, ...pathParts] = uri.path.replace(/^\//, '').split('/');
+    return { repoIdentifier: uri.authority, snapshotId, filePath: pathParts.join('/') };
   }
 
-  static createUri(snapshotId: string, filePath: string): vscode.Uri {
-    return vscode.Uri.parse(`${SnapshotContentProvider.scheme}:${snapshotId}/${filePath}`);
+  static createUri(snapshotId: string, filePath: string, repoIdentifier: string = ''): vscode.Uri {
+    // Uri.parse だと '#' や '%' を含むパスが壊れるため、パスを直接組み立てる
+    return vscode.Uri.from({
+      scheme: SnapshotContentProvider.scheme,
+      authority: repoIdentifier,
+      path: `/${snapshotId}/${filePath}`,
+    });
   }
 }
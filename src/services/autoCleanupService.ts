@@ -1,11 +1,41 @@
 import * as vscode from 'vscode';
-import { ShadowGitService } from './shadowGitService';
+import { RetentionCandidate, RetentionPolicy, RetentionReason, RetentionRule, RetentionTier } from '../types';
+import { WorkspaceRepository } from '../utils/workspaceRepositories';
+
+export const retentionReasonLabels: Record<RetentionReason, string> = {
+  age: 'older than the retention period',
+  rule: 'older than the retention rule for its source or branch',
+  tier: 'thinned out by the retention tiers',
+  count: 'over the maximum snapshot count',
+  size: 'over the maximum storage size',
+};
+
+export const getRetentionPolicy = (): RetentionPolicy => {
+  const config = vscode.workspace.getConfiguration('work-checkpoints');
+  return {
+    retentionDays: config.get<number>('retentionDays', 0),
+    rules: config.get<RetentionRule[]>('retentionRules', []),
+    tiers: config.get<RetentionTier[]>('retentionTiers', []),
+    maxCount: config.get<number>('maxSnapshots', 0),
+    maxSizeBytes: config.get<number>('maxStorageMB', 0) * 1024 * 1024,
+  };
+};
+
+const isPolicyEnabled = (policy: RetentionPolicy): boolean =>
+  policy.retentionDays > 0 ||
+  policy.rules.length > 0 ||
+  policy.tiers.length > 0 ||
+  policy.maxCount > 0 ||
+  policy.maxSizeBytes > 0;
 
 export class AutoCleanupService {
   private timer: NodeJS.Timeout | null = null;
   private readonly CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
 
-  constructor(private readonly getShadowGitService: () => ShadowGitService | null) {}
+  constructor(
+    private readonly getRepositories: () => WorkspaceRepository[],
+    private readonly outputChannel?: vscode.OutputChannel
+  ) {}
 
   start = (): void => {
     // Run cleanup on start
@@ -24,27 +54,75 @@ export class AutoCleanupService {
     }
   };
 
-  private runCleanup = async (): Promise<void> => {
-    const config = vscode.workspace.getConfiguration('work-checkpoints');
-    const retentionDays = config.get<number>('retentionDays', 0);
+  // 指定した設定（省略時は現在の設定）で削除されるスナップショット
+  planCleanup = async (
+    repository: WorkspaceRepository,
+    policy: RetentionPolicy = getRetentionPolicy()
+  ): Promise<RetentionCandidate[]> => {
+    // 統合済みかどうかを条件にする規則がある場合だけ、本体リポジトリのブランチを調べる
+    const mergedBranches = policy.rules.some((rule) => rule.merged !== undefined)
+      ? await repository.workspaceService.getMergedBranches()
+      : [];
+    return await repository.shadowGitService.planCleanup(policy, mergedBranches);
+  };
 
-    if (retentionDays <= 0) {
-      return;
+  // 削除した内容は出力チャネルに記録する
+  // 圧縮は削除済み・失われたスナップショットを完全に消すため、compact を指定した場合だけ行う
+  deleteSnapshots = async (
+    repository: WorkspaceRepository,
+    candidates: RetentionCandidate[],
+    compact: boolean = false
+  ): Promise<void> => {
+    const { shadowGitService } = repository;
+
+    if (candidates.length > 0) {
+      await shadowGitService.applyCleanup(candidates);
+      this.log(`Deleted ${candidates.length} snapshot(s) in ${repository.name}:`);
+      for (const { snapshot, reason } of candidates) {
+        this.log(
+          `  ${snapshot.id} [${snapshot.branchName}] ${snapshot.description} (${snapshot.timestamp.toLocaleString()}): ${retentionReasonLabels[reason]}`
+        );
+      }
     }
 
-    const shadowGitService = this.getShadowGitService();
+    if (compact) {
+      const result = await shadowGitService.compactStorage();
+      this.log(
+        `Compacted storage of ${repository.name}, removed ${result.removedCount} snapshot(s), reclaimed ${Math.max(0, result.sizeBefore - result.sizeAfter)} bytes`
+      );
+    }
+  };
+
+  private log = (message: string): void => {
+    console.log(`Auto-cleanup: ${message}`);
+    this.outputChannel?.appendLine(`[${new Date().toLocaleString()}] ${message}`);
+  };
 
-    if (!shadowGitService) {
+  private runCleanup = async (): Promise<void> => {
+    const config = vscode.workspace.getConfiguration('work-checkpoints');
+    const autoCompactStorage = config.get<boolean>('autoCompactStorage', false);
+
+    // 容量は圧縮するまで減らないため、圧縮しない設定では容量の上限を使わない
+    // (使うと、実行するたびに容量の見積もりが変わらないまま削除が進んでしまう)
+    const policy = getRetentionPolicy();
+    if (!autoCompactStorage) {
+      policy.maxSizeBytes = 0;
+    }
+    if (!isPolicyEnabled(policy) && !autoCompactStorage) {
       return;
     }
 
-    try {
-      const deletedCount = await shadowGitService.deleteOldSnapshots(retentionDays);
-      if (deletedCount > 0) {
-        console.log(`Auto-cleanup: Deleted ${deletedCount} old snapshot(s)`);
+    // 1 つのリポジトリで失敗しても、残りのリポジトリは整理する
+    for (const repository of this.getRepositories()) {
+      try {
+        const candidates = await this.planCleanup(repository, policy);
+        await this.deleteSnapshots(repository, candidates, autoCompactStorage);
+      } catch (error) {
+        console.error(`Auto-cleanup in ${repository.name} failed:`, error);
+        this.outputChannel?.appendLine(
+          `[${new Date().toLocaleString()}] Auto-cleanup in ${repository.name} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
-    } catch (error) {
-      console.error('Auto-cleanup failed:', error);
     }
   };
 }
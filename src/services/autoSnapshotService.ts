@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { SnapshotTrigger } from '../types';
+import { collectUnsavedFiles } from '../utils/unsavedFiles';
+import { WorkspaceRepository } from '../utils/workspaceRepositories';
+
+export class AutoSnapshotService {
+  private disposables: vscode.Disposable[] = [];
+  private intervalTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  // 前回の定期スナップショット以降に編集や保存があったか
+  private hasActivity = false;
+  private saveCount = 0;
+  // 作成中に届いたトリガーは同じ作成にまとめる
+  private pendingSnapshot: Promise<void> | null = null;
+
+  constructor(
+    private readonly getRepositories: () => WorkspaceRepository[],
+    private readonly onSnapshotCreated: () => void = () => {}
+  ) {}
+
+  // 設定を読み直してトリガーを登録する（設定変更時にも呼び直す）
+  start = (): void => {
+    this.stop();
+
+    const config = vscode.workspace.getConfiguration('work-checkpoints');
+    const intervalMinutes = config.get<number>('autoSnapshotIntervalMinutes', 0);
+    const saveCount = config.get<number>('autoSnapshotSaveCount', 0);
+    const idleMinutes = config.get<number>('autoSnapshotIdleMinutes', 0);
+    const onFocusLost = config.get<boolean>('autoSnapshotOnFocusLost', false);
+
+    if (intervalMinutes <= 0 && saveCount <= 0 && idleMinutes <= 0 && !onFocusLost) {
+      return;
+    }
+
+    const recordActivity = (): void => {
+      this.hasActivity = true;
+      if (idleMinutes > 0) {
+        if (this.idleTimer) {
+          clearTimeout(this.idleTimer);
+        }
+        this.idleTimer = setTimeout(() => {
+          this.idleTimer = null;
+          void this.takeSnapshot('idle');
+        }, idleMinutes * 60 * 1000);
+      }
+    };
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          recordActivity();
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (document.uri.scheme !== 'file') {
+          return;
+        }
+        recordActivity();
+        if (saveCount > 0 && ++this.saveCount >= saveCount) {
+          this.saveCount = 0;
+          void this.takeSnapshot('save-count');
+        }
+      })
+    );
+
+    if (onFocusLost) {
+      this.disposables.push(
+        vscode.window.onDidChangeWindowState((state) => {
+          if (!state.focused) {
+            void this.takeSnapshot('focus-lost');
+          }
+        })
+      );
+    }
+
+    // 操作が無かった間は作成しない
+    if (intervalMinutes > 0) {
+      this.intervalTimer = setInterval(() => {
+        if (this.hasActivity) {
+          this.hasActivity = false;
+          void this.takeSnapshot('interval');
+        }
+      }, intervalMinutes * 60 * 1000);
+    }
+  };
+
+  stop = (): void => {
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.hasActivity = false;
+    this.saveCount = 0;
+  };
+
+  // 変更が無い場合は "No changes to save" となり、コミットは作られない
+  takeSnapshot = async (trigger: SnapshotTrigger): Promise<void> => {
+    if (this.pendingSnapshot) {
+      return await this.pendingSnapshot;
+    }
+
+    this.pendingSnapshot = this.createSnapshot(trigger);
+    try {
+      await this.pendingSnapshot;
+    } finally {
+      this.pendingSnapshot = null;
+    }
+  };
+
+  // ワークスペース内のリポジトリごとに作成する（変更の無いリポジトリは作成しない）
+  private createSnapshot = async (trigger: SnapshotTrigger): Promise<void> => {
+    for (const repository of this.getRepositories()) {
+      await this.createRepositorySnapshot(repository, trigger);
+    }
+  };
+
+  private createRepositorySnapshot = async (repository: WorkspaceRepository, trigger: SnapshotTrigger): Promise<void> => {
+    try {
+      const branchName = await repository.workspaceService.getCurrentBranch();
+
+      const config = vscode.workspace.getConfiguration('work-checkpoints');
+      const messageFormat = config.get<string>('messageFormat');
+      const dateFormat = config.get<string>('dateFormat');
+      const unsavedFiles = config.get<boolean>('includeUnsavedChanges', false)
+        ? await collectUnsavedFiles(repository.gitRoot)
+        : { files: [], skipped: [] };
+
+      const snapshot = await repository.shadowGitService.createSnapshot(
+        branchName,
+        messageFormat,
+        dateFormat,
+        undefined,
+        [],
+        unsavedFiles.files,
+        trigger
+      );
+      console.log(`Auto-snapshot (${trigger}) in ${repository.name}: ${snapshot.description}`);
+      if (unsavedFiles.skipped.length > 0) {
+        console.log(`Auto-snapshot (${trigger}) in ${repository.name} left out unsaved changes in: ${unsavedFiles.skipped.join(', ')}`);
+      }
+      this.onSnapshotCreated();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'No changes to save') {
+        return;
+      }
+      console.error(`Auto-snapshot (${trigger}) in ${repository.name} failed:`, error);
+    }
+  };
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitOperation } from '../types';
+import { GUARD_UPDATE_DELAY_MS } from '../utils/constants';
+import { GitBranch, GitExtension, GitRepository } from '../types/git';
+import { WorkspaceRepository, findWorkspaceRepositories } from '../utils/workspaceRepositories';
+
+interface HeadState {
+  branchName: string;
+  commit?: string;
+}
+
+// 監視中のリポジトリごとの状態
+interface WatchedRepository {
+  repository: WorkspaceRepository;
+  lastHead: HeadState;
+  wasDirty: boolean;
+  indexChangeCount: number;
+  // 保存が続く間は保持する状態の更新を遅らせる
+  pendingUpdate: NodeJS.Timeout | null;
+}
+
+// 本体リポジトリの Git 操作（ブランチ切り替え、pull・rebase、破棄や stash）で失われる前の作業をスナップショットにする
+// Git 拡張機能は操作の後にしか通知しないため、変更がある間は最新の状態を保持しておき、操作を検知したら履歴に追加する
+// ブランチを切り替えた場合は、切り替え先のブランチの作業を戻せるように呼び出し元へ知らせる
+// ワークスペース内の Git リポジトリはそれぞれ別に監視する
+export class GitGuardService {
+  private disposables: vscode.Disposable[] = [];
+  private watched = new Map<string, WatchedRepository>();
+  // 状態の変化は順番に処理する
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly onSnapshotCreated: () => void = () => {},
+    // ブランチを切り替えた後に、リポジトリの Git ルートと切り替え先のブランチ名で呼ばれる
+    private readonly onBranchSwitched: (gitRoot: string, branchName: string) => Promise<void> = async () => {}
+  ) {}
+
+  start = async (): Promise<void> => {
+    this.stop();
+
+    const config = vscode.workspace.getConfiguration('work-checkpoints');
+    if (!config.get<boolean>('snapshotBeforeGitOperations', true)) {
+      return;
+    }
+
+    // ツリービューのサービスは起動直後にはまだ無いことがあるため、リポジトリはここで求める
+    const repositories = await findWorkspaceRepositories();
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (repositories.length === 0 || !extension) {
+      return;
+    }
+
+    try {
+      const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+      const api = gitExtension.getAPI(1);
+
+      const findWorkspaceRepository = (gitRepository: GitRepository): WorkspaceRepository | undefined =>
+        repositories.find(
+          (repository) => path.resolve(gitRepository.rootUri.fsPath) === path.resolve(repository.gitRoot)
+        );
+
+      for (const gitRepository of api.repositories) {
+        const repository = findWorkspaceRepository(gitRepository);
+        if (repository) {
+          this.watch(repository, gitRepository);
+        }
+      }
+      // Git 拡張機能がまだ開いていないリポジトリは、開かれるのを待つ
+      this.disposables.push(
+        api.onDidOpenRepository((opened) => {
+          const repository = findWorkspaceRepository(opened);
+          if (repository && !this.watched.has(repository.gitRoot)) {
+            this.watch(repository, opened);
+          }
+        })
+      );
+    } catch (error) {
+      console.error('Failed to access the Git extension:', error);
+    }
+  };
+
+  stop = (): void => {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    for (const state of this.watched.values()) {
+      this.cancelGuardUpdate(state);
+    }
+    this.watched.clear();
+  };
+
+  private watch = (repository: WorkspaceRepository, gitRepository: GitRepository): void => {
+    const state: WatchedRepository = {
+      repository,
+      lastHead: this.toHeadState(gitRepository.state.HEAD),
+      wasDirty: this.isDirty(gitRepository),
+      indexChangeCount: gitRepository.state.indexChanges.length,
+      pendingUpdate: null,
+    };
+    this.watched.set(repository.gitRoot, state);
+    if (state.wasDirty) {
+      this.enqueue(() => this.updateGuard(repository));
+    }
+
+    this.disposables.push(
+      gitRepository.state.onDidChange(() => {
+        this.enqueue(() => this.handleStateChange(state, gitRepository));
+      })
+    );
+  };
+
+  private enqueue = (task: () => Promise<void>): void => {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.error('Git operation snapshot failed:', error);
+    });
+  };
+
+  private toHeadState = (head: GitBranch | undefined): HeadState => ({
+    // detached HEAD はコミットの短縮ハッシュで表す
+    branchName: head?.name ?? head?.commit?.substring(0, 7) ?? 'unknown',
+    commit: head?.commit,
+  });
+
+  private isDirty = (gitRepository: GitRepository): boolean => {
+    const { indexChanges, workingTreeChanges, mergeChanges } = gitRepository.state;
+    return indexChanges.length + workingTreeChanges.length + mergeChanges.length > 0;
+  };
+
+  private handleStateChange = async (state: WatchedRepository, gitRepository: GitRepository): Promise<void> => {
+    const previous = state.lastHead;
+    const wasDirty = state.wasDirty;
+    const head = this.toHeadState(gitRepository.state.HEAD);
+    const dirty = this.isDirty(gitRepository);
+    const indexChangeCount = gitRepository.state.indexChanges.length;
+    const indexChanged = indexChangeCount !== state.indexChangeCount;
+    state.lastHead = head;
+    state.wasDirty = dirty;
+    state.indexChangeCount = indexChangeCount;
+
+    const { repository } = state;
+    const switchedBranch = previous.branchName !== head.branchName;
+    // Git 拡張機能は操作の後にしか通知しないため、待っている更新をここで行っても操作後の状態しか取れない
+    // 保持した状態には直前の保存が入っていない可能性があるので、スナップショットの説明でそう示す
+    const missedSaves = state.pendingUpdate !== null ? ' (recent saves may be missing)' : '';
+    if (wasDirty) {
+      if (switchedBranch) {
+        // 切り替え前のブランチの作業中の状態を、そのブランチのスナップショットとして残す
+        await this.promoteGuard(
+          repository,
+          'checkout',
+          `Before checkout: ${previous.branchName} → ${head.branchName}${missedSaves}`,
+          previous
+        );
+      } else if (previous.commit !== head.commit) {
+        await this.promoteGuard(repository, 'head-change', `Before HEAD change on ${head.branchName}${missedSaves}`, previous);
+      } else if (!dirty) {
+        await this.promoteGuard(repository, 'discard', `Before discarding changes on ${head.branchName}${missedSaves}`, previous);
+      }
+    }
+
+    // HEAD が変わった後や、コミット・stash の前に行うステージングの後はすぐに保持する
+    // ファイルの保存だけの場合は、保存が落ち着くまで待ってからまとめて保持する
+    this.cancelGuardUpdate(state);
+    if (dirty) {
+      if (previous.commit !== head.commit || switchedBranch || indexChanged) {
+        await this.updateGuard(repository);
+      } else {
+        this.scheduleGuardUpdate(state);
+      }
+    }
+
+    // 確認の応答を待つ間も状態の変化を処理できるよう、完了を待たない
+    if (switchedBranch) {
+      void this.onBranchSwitched(repository.gitRoot, head.branchName).catch((error) => {
+        console.error('Failed to offer the branch work restore:', error);
+      });
+    }
+  };
+
+  private scheduleGuardUpdate = (state: WatchedRepository): void => {
+    state.pendingUpdate = setTimeout(() => {
+      state.pendingUpdate = null;
+      this.enqueue(() => this.updateGuard(state.repository));
+    }, GUARD_UPDATE_DELAY_MS);
+  };
+
+  private cancelGuardUpdate = (state: WatchedRepository): void => {
+    if (state.pendingUpdate) {
+      clearTimeout(state.pendingUpdate);
+      state.pendingUpdate = null;
+    }
+  };
+
+  private updateGuard = async (repository: WorkspaceRepository): Promise<void> => {
+    await repository.shadowGitService.updateGuardSnapshot(await repository.workspaceService.getCurrentBranch());
+  };
+
+  // 操作前のブランチのスナップショットとして記録する
+  private promoteGuard = async (
+    repository: WorkspaceRepository,
+    operation: GitOperation,
+    description: string,
+    previous: HeadState
+  ): Promise<void> => {
+    const snapshot = await repository.shadowGitService.promoteGuardSnapshot(
+      description,
+      previous.branchName,
+      operation
+    );
+    if (snapshot) {
+      console.log(`Git operation snapshot (${operation}) in ${repository.name}: ${snapshot.description}`);
+      this.onSnapshotCreated();
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetadataStoreData, SnapshotRecord } from '../types';
+import { withRepoLock } from '../utils/repoLock';
+
+export const METADATA_FILE_NAME = '.metadata.json';
+export const METADATA_STORE_VERSION = 1;
+
+// 旧形式のメタデータファイル（最初の読み込み時に移行する）
+const LEGACY_DELETED_FILE = '.deleted';
+const LEGACY_RENAMED_FILE = '.renamed';
+const LEGACY_FAVORITES_FILE = '.favorites';
+
+const createEmptyData = (): MetadataStoreData => ({
+  version: METADATA_STORE_VERSION,
+  snapshots: {},
+});
+
+// スナップショットのメタデータ（名前・お気に入り・削除状態・タグ・メモ）を1つのバージョン付き JSON に保存する
+// Claude フックや OpenCode プラグインからも読まれるため、常にアトミックに置き換える
+export class MetadataStore {
+  constructor(private readonly shadowRepoPath: string) {}
+
+  get filePath(): string {
+    return path.join(this.shadowRepoPath, METADATA_FILE_NAME);
+  }
+
+  read = async (): Promise<MetadataStoreData> => {
+    return (await this.load()).data;
+  };
+
+  // 読み込めないファイルは空として扱い、corrupt で知らせる（書き込みはアトミックなので通常は起こらない）
+  private load = async (): Promise<{ data: MetadataStoreData; corrupt: boolean }> => {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return { data: await this.migrateLegacyFiles(), corrupt: false };
+    }
+
+    try {
+      const data = JSON.parse(content) as Partial<MetadataStoreData>;
+      return {
+        data: {
+          ...data,
+          version: data.version ?? METADATA_STORE_VERSION,
+          snapshots: data.snapshots ?? {},
+        },
+        corrupt: false,
+      };
+    } catch {
+      return { data: createEmptyData(), corrupt: true };
+    }
+  };
+
+  // 他のクライアントの書き込みと混ざらないよう、読み込みから書き込みまでロックを取る
+  update = async (mutator: (snapshots: Record<string, SnapshotRecord>) => void): Promise<MetadataStoreData> => {
+    return await withRepoLock(this.shadowRepoPath, async () => {
+      const { data, corrupt } = await this.load();
+      if (data.version > METADATA_STORE_VERSION) {
+        // 新しいバージョンの拡張機能が書いたファイルは壊さない
+        throw new Error(
+          `Snapshot metadata was written by a newer version (v${data.version}). Please update the extension.`
+        );
+      }
+      if (corrupt) {
+        // 空の状態で上書きすると名前・お気に入り・削除状態がすべて失われるため、壊れたファイルは別名で残す
+        const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+        await fs.rename(this.filePath, backupPath);
+        console.warn(`Snapshot metadata could not be parsed and was moved to ${backupPath}`);
+      }
+
+      mutator(data.snapshots);
+
+      // 空になったレコードは削除
+      for (const [id, record] of Object.entries(data.snapshots)) {
+        if (Object.values(record).every((value) => value === undefined)) {
+          delete data.snapshots[id];
+        }
+      }
+
+      await this.write(data);
+      return data;
+    });
+  };
+
+  private write = async (data: MetadataStoreData): Promise<void> => {
+    await fs.mkdir(this.shadowRepoPath, { recursive: true });
+
+    // 一時ファイルに書いてから rename することで、読み手が書きかけのファイルを見ないようにする
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  };
+
+  private readLegacyLines = async (fileName: string): Promise<string[] | null> => {
+    try {
+      const content = await fs.readFile(path.join(this.shadowRepoPath, fileName), 'utf-8');
+      return content.split('\n').filter(Boolean);
+    } catch {
+      return null;
+    }
+  };
+
+  private hasLegacyFiles = async (): Promise<boolean> => {
+    for (const fileName of [LEGACY_DELETED_FILE, LEGACY_RENAMED_FILE, LEGACY_FAVORITES_FILE]) {
+      try {
+        await fs.access(path.join(this.shadowRepoPath, fileName));
+        return true;
+      } catch {
+        // 存在しない
+      }
+    }
+    return false;
+  };
+
+  // 複数のクライアントが同時に移行しないよう、ロックを取ってから移行する
+  // ロックを待つ間に他のクライアントが移行を終えていた場合は、その結果を読む
+  private migrateLegacyFiles = async (): Promise<MetadataStoreData> => {
+    if (!(await this.hasLegacyFiles())) {
+      return createEmptyData();
+    }
+
+    return await withRepoLock(this.shadowRepoPath, async () => {
+      if (!(await this.hasLegacyFiles())) {
+        return (await this.load()).data;
+      }
+      return await this.migrateLegacyFilesLocked();
+    });
+  };
+
+  private migrateLegacyFilesLocked = async (): Promise<MetadataStoreData> => {
+    const deletedLines = await this.readLegacyLines(LEGACY_DELETED_FILE);
+    const renamedLines = await this.readLegacyLines(LEGACY_RENAMED_FILE);
+    const favoriteLines = await this.readLegacyLines(LEGACY_FAVORITES_FILE);
+
+    const data = createEmptyData();
+
+    const getRecord = (id: string): SnapshotRecord => {
+      data.snapshots[id] = data.snapshots[id] ?? {};
+      return data.snapshots[id];
+    };
+
+    for (const id of deletedLines ?? []) {
+      getRecord(id.trim()).deleted = true;
+    }
+    for (const line of renamedLines ?? []) {
+      const [id, name] = line.split('\t');
+      if (id && name) {
+        getRecord(id).name = name;
+      }
+    }
+    for (const id of favoriteLines ?? []) {
+      getRecord(id.trim()).favorite = true;
+    }
+
+    await this.write(data);
+
+    // 新しいストアを書き終えてから旧ファイルを削除
+    for (const fileName of [LEGACY_DELETED_FILE, LEGACY_RENAMED_FILE, LEGACY_FAVORITES_FILE]) {
+      try {
+        await fs.unlink(path.join(this.shadowRepoPath, fileName));
+      } catch {
+        // 存在しない場合は無視
+      }
+    }
+
+    return data;
+  };
+}
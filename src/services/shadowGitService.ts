@@ -1,16 +1,53 @@
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
+import { Dirent } from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { SnapshotMetadata, ShadowRepoConfig, DiffFileInfo, DiffFileStatus } from '../types';
-import { SHADOW_REPO_BASE_PATH } from '../utils/constants';
+import {
+  SnapshotMetadata,
+  ShadowRepoConfig,
+  DiffFileInfo,
+  DiffFileStatus,
+  CompactStorageResult,
+  RestoreChange,
+  RestoreMode,
+  RestorePreviewFile,
+  RetentionCandidate,
+  RetentionPolicy,
+  SnapshotMergeResult,
+  SafetyAction,
+  SafetySnapshot,
+  ListSnapshotPageOptions,
+  SnapshotPage,
+  SnapshotRecord,
+  SnapshotSource,
+  SnapshotTrigger,
+  UnsavedFile,
+  GitOperation,
+} from '../types';
+import { MetadataStore } from './metadataStore';
+import {
+  SHADOW_REPO_BASE_PATH,
+  RECOVERED_REF_PREFIX,
+  SNAPSHOT_PAGE_SIZE,
+  LOST_REF_PREFIX,
+  SAFETY_REF_PREFIX,
+  SAFETY_SNAPSHOT_LIMIT,
+  EMPTY_TREE_HASH,
+  GUARD_REF,
+} from '../utils/constants';
 import { generateRepoIdentifier } from '../utils/hashUtils';
 import { writeExcludePatterns } from '../utils/excludes';
+import { withRepoLock, isRepoLockHeld } from '../utils/repoLock';
+import { selectSnapshotsToDelete } from '../utils/retentionPolicy';
 
 export class ShadowGitService {
   private config: ShadowRepoConfig;
   private git: SimpleGit | null = null;
   private workspacePath: string;
+  private metadataStore: MetadataStore;
+  // 初期化したときの除外パターン（変わった場合だけ初期化し直す）
+  private initializedPatternsKey: string | null = null;
 
   constructor(remoteUrl: string | null, gitRoot: string) {
     const repoIdentifier = generateRepoIdentifier(remoteUrl, gitRoot);
@@ -20,52 +57,91 @@ export class ShadowGitService {
       repoIdentifier,
       shadowRepoPath: path.join(SHADOW_REPO_BASE_PATH, repoIdentifier),
     };
+    this.metadataStore = new MetadataStore(this.config.shadowRepoPath);
   }
 
   get shadowRepoPath(): string {
     return this.config.shadowRepoPath;
   }
 
-  private get deletedFilePath(): string {
-    return path.join(this.config.shadowRepoPath, '.deleted');
+  get repoIdentifier(): string {
+    return this.config.repoIdentifier;
   }
 
-  private get renamedFilePath(): string {
-    return path.join(this.config.shadowRepoPath, '.renamed');
-  }
+  // シャドウリポジトリが現在参照しているワークスペース（未作成なら null）
+  getRecordedWorktree = async (): Promise<string | null> => {
+    if (!(await this.hasShadowRepo())) {
+      return null;
+    }
+    try {
+      return (await this.getGit().raw(['config', '--get', 'core.worktree'])).trim() || null;
+    } catch {
+      return null;
+    }
+  };
 
-  private get favoritesFilePath(): string {
-    return path.join(this.config.shadowRepoPath, '.favorites');
-  }
+  private createGit = (extraEnv: Record<string, string> = {}): SimpleGit => {
+    // 環境変数をサニタイズ（Dev Container対応）
+    const sanitizedEnv = { ...process.env };
+    delete sanitizedEnv.GIT_DIR;
+    delete sanitizedEnv.GIT_WORK_TREE;
+    delete sanitizedEnv.GIT_INDEX_FILE;
+    delete sanitizedEnv.GIT_COMMON_DIR;
+
+    return simpleGit({
+      baseDir: this.config.shadowRepoPath,
+      binary: 'git',
+      maxConcurrentProcesses: 1,
+      config: [],
+      timeout: {
+        block: 30000, // 30 seconds timeout for blocking operations
+      },
+    }).env({ ...sanitizedEnv, ...extraEnv });
+  };
 
   private getGit = (): SimpleGit => {
     if (!this.git) {
-      // 環境変数をサニタイズ（Dev Container対応）
-      const sanitizedEnv = { ...process.env };
-      delete sanitizedEnv.GIT_DIR;
-      delete sanitizedEnv.GIT_WORK_TREE;
-      delete sanitizedEnv.GIT_INDEX_FILE;
-      delete sanitizedEnv.GIT_COMMON_DIR;
-
-      this.git = simpleGit({
-        baseDir: this.config.shadowRepoPath,
-        binary: 'git',
-        maxConcurrentProcesses: 1,
-        config: [],
-        timeout: {
-          block: 30000, // 30 seconds timeout for blocking operations
-        },
-      }).env(sanitizedEnv);
+      this.git = this.createGit();
     }
     return this.git;
   };
 
+  private withLock = async <T>(operation: () => Promise<T>): Promise<T> => {
+    return await withRepoLock(this.config.shadowRepoPath, operation);
+  };
+
+  private findRefLockFiles = async (dir: string): Promise<string[]> => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const lockFiles: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        lockFiles.push(...(await this.findRefLockFiles(entryPath)));
+      } else if (entry.name.endsWith('.lock')) {
+        lockFiles.push(entryPath);
+      }
+    }
+    return lockFiles;
+  };
+
   private removeLockFile = async (): Promise<void> => {
+    // 他のクライアントが使用中の可能性があるため、アドバイザリロックを保持していない限り何もしない
+    // (保持中に残っている Git のロックファイルはクラッシュしたクライアントのもの)
+    if (!isRepoLockHeld(this.config.shadowRepoPath)) {
+      return;
+    }
+
     const gitDir = path.join(this.config.shadowRepoPath, '.git');
     const lockFiles = [
       path.join(gitDir, 'index.lock'),
       path.join(gitDir, 'HEAD.lock'),
-      path.join(gitDir, 'refs', 'heads', '*.lock'),
+      ...(await this.findRefLockFiles(path.join(gitDir, 'refs'))),
     ];
 
     for (const lockFile of lockFiles) {
@@ -95,7 +171,7 @@ export class ShadowGitService {
           errorMessage.includes('remove the file manually');
 
         if (isLockError && attempt < maxRetries - 1) {
-          // Remove stale lock file and retry
+          // Remove leftover lock files (only while holding the repo lock) and retry
           await this.removeLockFile();
           await new Promise((resolve) => setTimeout(resolve, delayMs * (attempt + 1)));
         } else {
@@ -106,162 +182,233 @@ export class ShadowGitService {
     throw new Error('Git operation failed after retries');
   };
 
-  private getDeletedIds = async (): Promise<Set<string>> => {
-    try {
-      const content = await fs.readFile(this.deletedFilePath, 'utf-8');
-      return new Set(content.split('\n').filter(Boolean));
-    } catch {
-      return new Set();
-    }
-  };
-
-  private addDeletedId = async (id: string): Promise<void> => {
-    const deletedIds = await this.getDeletedIds();
-    deletedIds.add(id);
-    await fs.writeFile(this.deletedFilePath, [...deletedIds].join('\n'));
-  };
-
-  private getRenamedMap = async (): Promise<Map<string, string>> => {
-    try {
-      const content = await fs.readFile(this.renamedFilePath, 'utf-8');
-      const map = new Map<string, string>();
-      for (const line of content.split('\n').filter(Boolean)) {
-        const [id, name] = line.split('\t');
-        if (id && name) {
-          map.set(id, name);
-        }
-      }
-      return map;
-    } catch {
-      return new Map();
-    }
-  };
-
-  private setRenamedMap = async (map: Map<string, string>): Promise<void> => {
-    const lines = [...map.entries()].map(([id, name]) => `${id}\t${name}`);
-    await fs.writeFile(this.renamedFilePath, lines.join('\n'));
+  private getSnapshotRecords = async (): Promise<Record<string, SnapshotRecord>> => {
+    const data = await this.metadataStore.read();
+    return data.snapshots;
   };
 
   initializeIfNeeded = async (): Promise<void> => {
-    try {
-      await fs.access(path.join(this.config.shadowRepoPath, '.git'));
-
-      // Clean up any stale lock files first
-      await this.removeLockFile();
+    const config = vscode.workspace.getConfiguration('work-checkpoints');
+    const patternsKey = JSON.stringify(config.get<string[]>('ignorePatterns', []));
+    // 初期化済みで除外パターンも変わっていなければ、シャドウリポジトリが残っているかだけ確かめる
+    if (this.initializedPatternsKey === patternsKey && (await this.hasShadowRepo())) {
+      return;
+    }
 
-      // 既存のリポジトリがある場合、core.worktree が正しく設定されているか確認
-      const git = this.getGit();
-      await this.retryGitOperation(async () => {
-        try {
-          const currentWorktree = await git.raw(['config', '--get', 'core.worktree']);
-          if (currentWorktree.trim() !== this.workspacePath) {
+    await this.withLock(async () => {
+      try {
+        await fs.access(path.join(this.config.shadowRepoPath, '.git'));
+
+        // Clean up any stale lock files first
+        await this.removeLockFile();
+
+        // 既存のリポジトリがある場合、core.worktree が正しく設定されているか確認
+        const git = this.getGit();
+        await this.retryGitOperation(async () => {
+          try {
+            const currentWorktree = await git.raw(['config', '--get', 'core.worktree']);
+            if (currentWorktree.trim() !== this.workspacePath) {
+              await git.addConfig('core.worktree', this.workspacePath);
+            }
+          } catch {
+            // core.worktree が設定されていない場合は設定する
             await git.addConfig('core.worktree', this.workspacePath);
           }
-        } catch {
-          // core.worktree が設定されていない場合は設定する
-          await git.addConfig('core.worktree', this.workspacePath);
-        }
-      });
+        });
 
-      // 除外パターンを更新（設定変更を反映）
-      const config = vscode.workspace.getConfiguration('work-checkpoints');
-      const additionalPatterns = config.get<string[]>('ignorePatterns', []);
-      await writeExcludePatterns(this.config.shadowRepoPath, additionalPatterns);
-    } catch {
-      // Shadow repo が存在しない場合は新規作成
-      await fs.mkdir(this.config.shadowRepoPath, { recursive: true });
-      const git = this.getGit();
+        // 除外パターンを更新（設定変更を反映）
+        const additionalPatterns = config.get<string[]>('ignorePatterns', []);
+        await writeExcludePatterns(this.config.shadowRepoPath, additionalPatterns);
+      } catch {
+        // Shadow repo が存在しない場合は新規作成
+        await fs.mkdir(this.config.shadowRepoPath, { recursive: true });
+        const git = this.getGit();
 
-      await this.retryGitOperation(async () => {
-        await git.init();
+        await this.retryGitOperation(async () => {
+          await git.init();
 
-        // core.worktree を設定してワークスペースを直接参照
-        await git.addConfig('core.worktree', this.workspacePath);
-        await git.addConfig('user.email', 'work-checkpoints@local');
-        await git.addConfig('user.name', 'Work Checkpoints');
-      });
+          // core.worktree を設定してワークスペースを直接参照
+          await git.addConfig('core.worktree', this.workspacePath);
+          await git.addConfig('user.email', 'work-checkpoints@local');
+          await git.addConfig('user.name', 'Work Checkpoints');
+        });
 
-      // 除外パターンを設定
-      const config = vscode.workspace.getConfiguration('work-checkpoints');
-      const additionalPatterns = config.get<string[]>('ignorePatterns', []);
-      await writeExcludePatterns(this.config.shadowRepoPath, additionalPatterns);
-    }
+        // 除外パターンを設定
+        const additionalPatterns = config.get<string[]>('ignorePatterns', []);
+        await writeExcludePatterns(this.config.shadowRepoPath, additionalPatterns);
+      }
+    });
+    this.initializedPatternsKey = patternsKey;
   };
 
   createSnapshot = async (
     branchName: string,
     messageFormat?: string,
     dateFormat?: string,
-    customDescription?: string
+    customDescription?: string,
+    scope: string[] = [],
+    unsavedFiles: UnsavedFile[] = [],
+    trigger?: SnapshotTrigger
   ): Promise<SnapshotMetadata> => {
-    await this.initializeIfNeeded();
+    return await this.withLock(async () => {
+      await this.initializeIfNeeded();
 
-    const git = this.getGit();
+      const git = this.getGit();
+
+      // git add . で直接ワークスペースをステージング（ファイルコピー不要！）
+      // scope を指定した場合はそのパスだけをステージし、他のパスは直前のスナップショットの内容を引き継ぐ
+      await this.retryGitOperation(async () => {
+        if (scope.length > 0) {
+          await git.raw(['add', '-A', ...this.toPathspecs(scope)]);
+        } else {
+          await git.add('.');
+        }
+      });
+
+      // 未保存の内容はディスクに書き込まず、インデックスの該当ファイルだけを差し替える
+      const unsavedInScope = unsavedFiles.filter(
+        ({ file }) => scope.length === 0 || scope.some((p) => file === p || file.startsWith(`${p}/`))
+      );
+      const stagedUnsavedFiles = await this.stageUnsavedFiles(unsavedInScope);
+
+      // ステージングエリアに変更があるか確認（移動だけの変更は staged ではなく renamed に入る）
+      const status = await git.status();
+      if (status.staged.length === 0 && status.renamed.length === 0) {
+        throw new Error('No changes to save');
+      }
+
+      // Create commit with metadata
+      const timestamp = new Date();
+      const description = customDescription || this.formatDescription(branchName, timestamp, messageFormat, dateFormat);
+
+      // Always include branch name as trailer for reliable extraction later
+      // 部分スナップショットは対象パスを Scope、未保存の内容を保存したファイルを Unsaved、
+      // 自動スナップショットはきっかけを Trigger トレーラーとして残す
+      const trailers = [
+        ...scope.map((p) => `\nScope: ${p}`),
+        ...stagedUnsavedFiles.map((file) => `\nUnsaved: ${file}`),
+        ...(trigger ? [`\nTrigger: ${trigger}`] : []),
+      ].join('');
+      const commitMessage =
+        customDescription || trailers
+          ? `${description}\n\nBranch: ${branchName}${trailers}`
+          : description;
 
-    // git add . で直接ワークスペースをステージング（ファイルコピー不要！）
-    await this.retryGitOperation(async () => {
-      await git.add('.');
+      await this.retryGitOperation(async () => {
+        await git.commit(commitMessage);
+      });
+
+      const log = await this.retryGitOperation(async () => {
+        return await git.log({ maxCount: 1 });
+      });
+      const latestCommit = log.latest;
+
+      return {
+        id: latestCommit?.hash.substring(0, 7) ?? '',
+        branchName,
+        timestamp,
+        description,
+        ...(scope.length > 0 && { scope }),
+        ...(stagedUnsavedFiles.length > 0 && { unsavedFiles: stagedUnsavedFiles }),
+        ...(trigger && { trigger }),
+      };
     });
+  };
 
-    // ステージングエリアに変更があるか確認
-    const status = await git.status();
-    if (status.staged.length === 0) {
-      throw new Error('No changes to save');
+  // 内容を blob として書き込み、インデックスのエントリを差し替える（除外パターンに一致するファイルは対象外）
+  // 実際にステージしたファイルのパスを返す
+  private stageUnsavedFiles = async (unsavedFiles: UnsavedFile[]): Promise<string[]> => {
+    if (unsavedFiles.length === 0) {
+      return [];
     }
 
-    // Create commit with metadata
-    const timestamp = new Date();
-    const description = customDescription || this.formatDescription(branchName, timestamp, messageFormat, dateFormat);
+    const git = this.getGit();
+    const ignoredOutput = await this.retryGitOperation(async () => {
+      return await git.raw(['check-ignore', '--', ...unsavedFiles.map(({ file }) => file)]);
+    });
+    // check-ignore の -z は --stdin と併用する必要があるため、引用符付きの出力を戻す
+    const ignored = new Set(
+      ignoredOutput
+        .split('\n')
+        .filter(Boolean)
+        .map((p) => this.unquoteGitPath(p))
+    );
 
-    // Always include branch name as trailer for reliable extraction later
-    const commitMessage = customDescription
-      ? `${customDescription}\n\nBranch: ${branchName}`
-      : description;
+    const tempFile = path.join(this.config.shadowRepoPath, '.git', `unsaved-${process.pid}-${Date.now()}`);
+    const staged: string[] = [];
+    try {
+      for (const { file, content } of unsavedFiles.filter(({ file }) => !ignored.has(file))) {
+        await fs.writeFile(tempFile, content);
+        const objectId = (
+          await this.retryGitOperation(async () => {
+            return await git.raw(['hash-object', '-w', '--no-filters', tempFile]);
+          })
+        ).trim();
+
+        // 実行権限はディスク上のファイルと同じく既存のエントリから引き継ぐ
+        const entry = await this.retryGitOperation(async () => {
+          return await git.raw(['ls-files', '-s', '-z', '--', `:(top,literal)${file}`]);
+        });
+        const mode = entry.startsWith('100755 ') ? '100755' : '100644';
 
-    await this.retryGitOperation(async () => {
-      await git.commit(commitMessage);
-    });
+        await this.retryGitOperation(async () => {
+          await git.raw(['update-index', '--add', '--cacheinfo', `${mode},${objectId},${file}`]);
+        });
+        staged.push(file);
+      }
+    } finally {
+      await fs.rm(tempFile, { force: true });
+    }
+    return staged;
+  };
 
+  private hasShadowRepo = async (): Promise<boolean> => {
+    try {
+      await fs.access(path.join(this.config.shadowRepoPath, '.git'));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  private readSnapshotCommits = async (logArgs: string[]): Promise<SnapshotMetadata[]> => {
+    const git = this.getGit();
     const log = await this.retryGitOperation(async () => {
-      return await git.log({ maxCount: 1 });
+      return await git.log(logArgs);
     });
-    const latestCommit = log.latest;
+    return log.all.map((commit) => this.parseCommitMetadata(commit));
+  };
 
-    return {
-      id: latestCommit?.hash.substring(0, 7) ?? '',
-      branchName,
-      timestamp,
-      description,
+  private applyUserMetadata = (
+    snapshot: SnapshotMetadata,
+    records: Record<string, SnapshotRecord>
+  ): SnapshotMetadata => {
+    const record = records[snapshot.id];
+    const isFavorite = !!record?.favorite;
+    const userFields = {
+      isFavorite,
+      ...(record?.tags ? { tags: record.tags } : {}),
+      ...(record?.note ? { note: record.note } : {}),
     };
+    if (record?.name) {
+      return { ...snapshot, description: record.name, ...userFields };
+    }
+    return { ...snapshot, ...userFields };
   };
 
   listSnapshots = async (): Promise<SnapshotMetadata[]> => {
-    try {
-      await fs.access(path.join(this.config.shadowRepoPath, '.git'));
-    } catch {
+    if (!(await this.hasShadowRepo())) {
       return [];
     }
 
     try {
-      const git = this.getGit();
-      const log = await this.retryGitOperation(async () => {
-        return await git.log({ maxCount: 100 });
-      });
-      const deletedIds = await this.getDeletedIds();
-      const renamedMap = await this.getRenamedMap();
-      const favoriteIds = await this.getFavoriteIds();
-
-      const snapshots = log.all
-        .map((commit) => this.parseCommitMetadata(commit))
-        .filter((snapshot) => !deletedIds.has(snapshot.id))
-        .map((snapshot) => {
-          const renamedDescription = renamedMap.get(snapshot.id);
-          const isFavorite = favoriteIds.has(snapshot.id);
-          if (renamedDescription) {
-            return { ...snapshot, description: renamedDescription, isFavorite };
-          }
-          return { ...snapshot, isFavorite };
-        });
+      // 復旧したスナップショットは refs/recovered/ 配下の ref から辿る
+      const commits = await this.readSnapshotCommits(this.listedRevisions);
+      const records = await this.getSnapshotRecords();
+
+      const snapshots = commits
+        .filter((snapshot) => !records[snapshot.id]?.deleted)
+        .map((snapshot) => this.applyUserMetadata(snapshot, records));
 
       // Sort favorites to the top
       return snapshots.sort((a, b) => {
@@ -278,51 +425,301 @@ export class ShadowGitService {
     }
   };
 
+  listSnapshotPage = async (options: ListSnapshotPageOptions): Promise<SnapshotPage> => {
+    const { limit, cursor = 0, filter } = options;
+    const emptyPage: SnapshotPage = { snapshots: [], nextCursor: null };
+
+    if (!(await this.hasShadowRepo())) {
+      return emptyPage;
+    }
+
+    try {
+      const records = await this.getSnapshotRecords();
+      const favoriteIds = Object.keys(records).filter((id) => records[id].favorite);
+      const isVisible = (snapshot: SnapshotMetadata) =>
+        !records[snapshot.id]?.deleted && (!filter || filter(snapshot));
+
+      // お気に入りはページ位置に関係なく最初のページの先頭に表示する
+      let favorites: SnapshotMetadata[] = [];
+      if (cursor === 0 && favoriteIds.length > 0) {
+        const favoriteCommits = await this.readSnapshotCommits(['--no-walk', '--ignore-missing', ...favoriteIds]);
+        favorites = favoriteCommits
+          .map((snapshot) => this.applyUserMetadata(snapshot, records))
+          .filter(isVisible)
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      }
+
+      // 削除済みを除いて limit 件集まるまで履歴を少しずつ読み進める
+      const snapshots: SnapshotMetadata[] = [];
+      const batchSize = Math.max(limit, SNAPSHOT_PAGE_SIZE);
+      let offset = cursor;
+      let exhausted = false;
+      while (snapshots.length < limit && !exhausted) {
+        const batch = await this.readSnapshotCommits([
+          `--skip=${offset}`,
+          `--max-count=${batchSize}`,
+          ...this.listedRevisions,
+        ]);
+        exhausted = batch.length < batchSize;
+
+        for (let i = 0; i < batch.length; i++) {
+          offset++;
+          const snapshot = this.applyUserMetadata(batch[i], records);
+          if (!snapshot.isFavorite && isVisible(snapshot)) {
+            snapshots.push(snapshot);
+          }
+          if (snapshots.length === limit) {
+            exhausted = exhausted && i === batch.length - 1;
+            break;
+          }
+        }
+      }
+
+      return {
+        snapshots: [...favorites, ...snapshots],
+        nextCursor: exhausted ? null : offset,
+      };
+    } catch {
+      return emptyPage;
+    }
+  };
+
+  private getSnapshotMetadata = async (snapshotId: string): Promise<SnapshotMetadata> => {
+    const git = this.getGit();
+    const log = await this.retryGitOperation(async () => {
+      return await git.log(['--max-count=1', snapshotId]);
+    });
+    if (!log.latest) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return this.parseCommitMetadata(log.latest);
+  };
+
+  private get historyRevisions(): string[] {
+    return ['HEAD', `--glob=${RECOVERED_REF_PREFIX}`];
+  }
+
+  // 一覧に表示する履歴（安全用スナップショットは設定で有効にした場合のみ）
+  private get listedRevisions(): string[] {
+    const config = vscode.workspace.getConfiguration('work-checkpoints');
+    return config.get<boolean>('showSafetySnapshots', false)
+      ? [...this.historyRevisions, `--glob=${SAFETY_REF_PREFIX}`]
+      : this.historyRevisions;
+  }
+
+  // ブランチ（Branch トレーラー）ごとの最新のスナップショット
+  // 最初のページではお気に入りが先頭に来るため、履歴上の最新の1件とお気に入りを日時で比べる
+  getLatestSnapshotForBranch = async (branchName: string): Promise<SnapshotMetadata | null> => {
+    const page = await this.listSnapshotPage({
+      limit: 1,
+      filter: (snapshot) => snapshot.branchName === branchName,
+    });
+    const newest = page.snapshots.find((snapshot) => !snapshot.isFavorite) ?? null;
+    return page.snapshots
+      .filter((snapshot) => snapshot.isFavorite)
+      .reduce<SnapshotMetadata | null>(
+        (latest, favorite) => (!latest || favorite.timestamp > latest.timestamp ? favorite : latest),
+        newest
+      );
+  };
+
+  findLostSnapshots = async (): Promise<SnapshotMetadata[]> => {
+    return (await this.findLostCommits()).map(({ snapshot }) => snapshot);
+  };
+
+  // 失われたスナップショットと、そのコミットの完全なハッシュ
+  private findLostCommits = async (): Promise<{ hash: string; snapshot: SnapshotMetadata }[]> => {
+    await this.initializeIfNeeded();
+
+    const git = this.getGit();
+    const lostHashes = new Set<string>();
+
+    // reflog からしか辿れないコミット（過去の reset --hard で取り残されたもの）
+    try {
+      const reflogOutput = await this.retryGitOperation(async () => {
+        return await git.raw(['rev-list', '--reflog', '--not', ...this.historyRevisions, `--glob=${SAFETY_REF_PREFIX}`]);
+      });
+      for (const hash of reflogOutput.split('\n').filter(Boolean)) {
+        lostHashes.add(hash.trim());
+      }
+    } catch {
+      // reflog がない場合は無視
+    }
+
+    // 以前の圧縮で reflog の代わりに残したコミット
+    const lostRefOutput = await this.retryGitOperation(async () => {
+      return await git.raw(['for-each-ref', '--format=%(objectname)', LOST_REF_PREFIX]);
+    }).catch(() => '');
+    for (const hash of lostRefOutput.split('\n').filter(Boolean)) {
+      lostHashes.add(hash.trim());
+    }
+
+    // どこからも参照されていないコミット
+    try {
+      const fsckOutput = await this.retryGitOperation(async () => {
+        return await git.raw(['fsck', '--unreachable', '--no-reflogs', '--no-progress']);
+      });
+      for (const line of fsckOutput.split('\n')) {
+        const match = line.match(/^unreachable commit ([0-9a-f]{40})$/);
+        if (match) {
+          lostHashes.add(match[1]);
+        }
+      }
+    } catch {
+      // fsck が失敗しても reflog の結果だけで続行
+    }
+
+    // fsck は reflog 経由のコミットも含むため、履歴から辿れるものを除外
+    const reachableOutput = await this.retryGitOperation(async () => {
+      return await git.raw(['rev-list', ...this.historyRevisions, `--glob=${SAFETY_REF_PREFIX}`]);
+    }).catch(() => '');
+    for (const hash of reachableOutput.split('\n').filter(Boolean)) {
+      lostHashes.delete(hash.trim());
+    }
+
+    if (lostHashes.size === 0) {
+      return [];
+    }
+
+    const records = await this.getSnapshotRecords();
+    const hashes = [...lostHashes];
+    const commits: { hash: string; snapshot: SnapshotMetadata }[] = [];
+    for (let i = 0; i < hashes.length; i += 100) {
+      const batch = hashes.slice(i, i + 100);
+      const log = await this.retryGitOperation(async () => {
+        return await git.log(['--no-walk', ...batch]);
+      });
+      commits.push(...log.all.map((commit) => ({ hash: commit.hash, snapshot: this.parseCommitMetadata(commit) })));
+    }
+
+    // 取り消しで使い終えた安全用スナップショットは復旧対象にしない
+    return commits
+      .filter(({ snapshot }) => !records[snapshot.id]?.deleted && !snapshot.isSafetySnapshot)
+      .sort((a, b) => b.snapshot.timestamp.getTime() - a.snapshot.timestamp.getTime());
+  };
+
+  getSnapshotShortStats = async (snapshotIds: string[]): Promise<Map<string, string>> => {
+    const git = this.getGit();
+    const stats = new Map<string, string>();
+    for (let i = 0; i < snapshotIds.length; i += 100) {
+      const batch = snapshotIds.slice(i, i + 100);
+      // 各コミットを親コミットと比較した変更量 (%x00 をコミットの区切りにする)
+      const output = await this.retryGitOperation(async () => {
+        return await git.raw(['log', '--no-walk=unsorted', '--shortstat', '--format=%x00%h', ...batch]);
+      });
+      for (const chunk of output.split('\0').filter(Boolean)) {
+        const [hash, ...rest] = chunk.trim().split('\n');
+        stats.set(hash.substring(0, 7), rest.join(' ').trim());
+      }
+    }
+    return stats;
+  };
+
+  getSnapshotPatch = async (snapshotId: string): Promise<string> => {
+    const git = this.getGit();
+    return await this.retryGitOperation(async () => {
+      return await git.raw(['show', '--stat', '--patch', snapshotId]);
+    });
+  };
+
+  recoverSnapshots = async (snapshotIds: string[]): Promise<void> => {
+    await this.withLock(async () => {
+      const git = this.getGit();
+      for (const snapshotId of snapshotIds) {
+        const hash = (
+          await this.retryGitOperation(async () => {
+            return await git.raw(['rev-parse', '--verify', `${snapshotId}^{commit}`]);
+          })
+        ).trim();
+
+        // ref を張ることで listSnapshots から辿れるようにする（コミット自体は書き換えない）
+        await this.retryGitOperation(async () => {
+          await git.raw(['update-ref', `${RECOVERED_REF_PREFIX}${hash}`, hash]);
+          await git.raw(['update-ref', '-d', `${LOST_REF_PREFIX}${hash}`]);
+        });
+      }
+    });
+  };
+
   getSnapshotFileNames = async (snapshotId: string): Promise<string[]> => {
     const git = this.getGit();
     const fileList = await this.retryGitOperation(async () => {
       return await git.raw(['ls-tree', '-r', '--name-only', '-z', snapshotId]);
     });
-    return fileList
-      .split('\0')
-      .filter(Boolean)
-      .map((p) => this.unquoteGitPath(p));
+    return fileList.split('\0').filter(Boolean);
   };
 
-  getSnapshotDiffFiles = async (snapshotId: string): Promise<DiffFileInfo[]> => {
+  // paths を指定した場合はそのパス（フォルダ可）に限定する
+  getSnapshotDiffFiles = async (snapshotId: string, paths: string[] = []): Promise<DiffFileInfo[]> => {
     // core.worktree が正しいワークスペースを指すようにする
     await this.initializeIfNeeded();
 
+    return await this.collectDiffFiles([snapshotId], paths);
+  };
+
+  // 2つのスナップショット間の差分（baseId から targetId への変更）
+  compareSnapshots = async (baseId: string, targetId: string): Promise<DiffFileInfo[]> => {
+    return await this.collectDiffFiles([baseId, targetId]);
+  };
+
+  // スナップショットの直前の状態（親コミット）。最初のスナップショットや安全用スナップショットは空のツリー
+  getPreviousSnapshotId = async (snapshotId: string): Promise<string> => {
     const git = this.getGit();
+    const parents = await this.retryGitOperation(async () => {
+      return await git.raw(['log', '-1', '--format=%P', snapshotId]);
+    });
+    const [parentId] = parents.trim().split(' ').filter(Boolean);
+    return parentId ?? EMPTY_TREE_HASH;
+  };
 
-    // ファイル状態を取得 (A=追加, M=変更, D=削除)
+  private collectDiffFiles = async (revisions: string[], paths: string[] = []): Promise<DiffFileInfo[]> => {
+    const git = this.getGit();
+
+    // ファイル状態を取得 (A=追加, M=変更, D=削除, R=移動)
+    // -z で引用符なしのパスを受け取り、-M で移動を追加と削除の組ではなく1件として扱う
     const nameStatusOutput = await this.retryGitOperation(async () => {
-      return await git.diff(['--name-status', snapshotId]);
+      return await git.diff(['--name-status', '-z', '-M', ...revisions, ...this.toPathspecs(paths)]);
     });
-    const statusMap = new Map<string, DiffFileStatus>();
-    for (const line of nameStatusOutput.trim().split('\n').filter(Boolean)) {
-      const [status, file] = line.split('\t');
-      if (status && file) {
+    const statusMap = new Map<string, { status: DiffFileStatus; oldFile?: string }>();
+    const nameStatusFields = nameStatusOutput.split('\0');
+    for (let i = 0; i < nameStatusFields.length - 1; ) {
+      const status = nameStatusFields[i];
+      if (status.startsWith('R')) {
+        statusMap.set(nameStatusFields[i + 2], { status: 'renamed', oldFile: nameStatusFields[i + 1] });
+        i += 3;
+      } else {
         const diffStatus: DiffFileStatus =
           status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified';
-        statusMap.set(file, diffStatus);
+        statusMap.set(nameStatusFields[i + 1], { status: diffStatus });
+        i += 2;
       }
     }
 
-    // 追加/削除行数を取得
+    // 追加/削除行数を取得（移動の場合はパスが空になり、続く2フィールドが移動元と移動先）
     const numstatOutput = await this.retryGitOperation(async () => {
-      return await git.diff(['--numstat', snapshotId]);
+      return await git.diff(['--numstat', '-z', '-M', ...revisions, ...this.toPathspecs(paths)]);
     });
     const result: DiffFileInfo[] = [];
-    for (const line of numstatOutput.trim().split('\n').filter(Boolean)) {
-      const [insertions, deletions, file] = line.split('\t');
+    const numstatFields = numstatOutput.split('\0');
+    for (let i = 0; i < numstatFields.length - 1; i++) {
+      const [insertions, deletions, pathField] = numstatFields[i].split('\t');
+      let file = pathField;
+      if (pathField === '') {
+        file = numstatFields[i + 2];
+        i += 2;
+      }
       if (file) {
-        result.push({
+        const info: DiffFileInfo = {
           file,
-          status: statusMap.get(file) ?? 'modified',
+          status: statusMap.get(file)?.status ?? 'modified',
           insertions: insertions === '-' ? 0 : parseInt(insertions, 10) || 0,
           deletions: deletions === '-' ? 0 : parseInt(deletions, 10) || 0,
-        });
+        };
+        const oldFile = statusMap.get(file)?.oldFile;
+        if (oldFile) {
+          info.oldFile = oldFile;
+        }
+        result.push(info);
       }
     }
 
@@ -330,7 +727,7 @@ export class ShadowGitService {
   };
 
   private unquoteGitPath = (path: string): string => {
-    // Git が引用符で囲んだパスを処理する
+    // Git が引用符で囲んだパスを処理する（-z を付けない出力のみ）
     // 例: "\"path with spaces\"" -> "path with spaces"
     if (path.startsWith('"') && path.endsWith('"')) {
       // 引用符を削除してエスケープシーケンスを処理
@@ -352,20 +749,16 @@ export class ShadowGitService {
       const fileList = await this.retryGitOperation(async () => {
         return await git.raw(['ls-tree', '-r', '--name-only', '-z', snapshotId]);
       });
-      const filePaths = fileList
-        .split('\0')
-        .filter(Boolean)
-        .map((p) => this.unquoteGitPath(p));
+      const filePaths = fileList.split('\0').filter(Boolean);
 
       console.log(`[getSnapshotFiles] Found ${filePaths.length} files in snapshot ${snapshotId}`);
 
       for (const filePath of filePaths) {
         try {
-          const content = await this.retryGitOperation(async () => {
-            const result = await git.show([`${snapshotId}:${filePath}`]);
-            return Buffer.from(result, 'binary');
-          });
-          files.set(filePath, content);
+          const content = await this.getSnapshotFileBuffer(snapshotId, filePath);
+          if (content) {
+            files.set(filePath, content);
+          }
         } catch (error) {
           console.warn(`[getSnapshotFiles] Failed to read file ${filePath}:`, error);
           // Skip files that can't be read (binary, etc.)
@@ -380,96 +773,841 @@ export class ShadowGitService {
     }
   };
 
-  getSnapshotFileContent = async (snapshotId: string, filePath: string): Promise<string> => {
+  private getSnapshotFileEntry = async (
+    snapshotId: string,
+    filePath: string
+  ): Promise<{ mode: string; objectId: string } | null> => {
     const git = this.getGit();
+    const output = await this.retryGitOperation(async () => {
+      return await git.raw(['ls-tree', '-z', '--full-tree', snapshotId, '--', filePath]);
+    });
+
+    // 形式: "<mode> <type> <object>\t<path>\0"（ディレクトリと同名のエントリは除外）
+    for (const entry of output.split('\0').filter(Boolean)) {
+      const tabIndex = entry.indexOf('\t');
+      const [mode, type, objectId] = entry.substring(0, tabIndex).split(' ');
+      if (type === 'blob' && entry.substring(tabIndex + 1) === filePath) {
+        return { mode, objectId };
+      }
+    }
+    return null;
+  };
+
+  private readBlob = async (objectId: string): Promise<Buffer> => {
+    const git = this.getGit();
+    return await this.retryGitOperation(async () => {
+      return (await git.binaryCatFile(['blob', objectId])) as Buffer;
+    });
+  };
+
+  // 文字列に変換せずバイト列のまま返す（バイナリや UTF-8 以外のファイルを壊さない）
+  // スナップショットにファイルが存在しない場合は null（空ファイルは長さ 0 の Buffer）
+  getSnapshotFileBuffer = async (snapshotId: string, filePath: string): Promise<Buffer | null> => {
+    const entry = await this.getSnapshotFileEntry(snapshotId, filePath);
+    return entry ? await this.readBlob(entry.objectId) : null;
+  };
+
+  private writeSnapshotEntry = async (fullPath: string, mode: string, content: Buffer): Promise<void> => {
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    // 既存のシンボリックリンクに書き込むとリンク先を上書きしてしまうため、先に削除する
+    const existing = await fs.lstat(fullPath).catch(() => null);
+    if (existing && (existing.isSymbolicLink() || mode === '120000')) {
+      await fs.unlink(fullPath);
+    }
+
+    // シンボリックリンクは blob にリンク先が入っている
+    if (mode === '120000') {
+      try {
+        await fs.symlink(content.toString(), fullPath);
+        return;
+      } catch {
+        // シンボリックリンクを作成できない環境（Windows など）では git と同様にリンク先を書いたファイルにする
+      }
+    }
+
+    await fs.writeFile(fullPath, content);
+
+    // 100755 は読み取り可能な対象に実行権限を付け、100644 は実行権限を外す（git checkout と同じ扱い）
+    const currentMode = (await fs.stat(fullPath)).mode & 0o777;
+    const newMode = mode === '100755' ? currentMode | ((currentMode & 0o444) >> 2) : currentMode & ~0o111;
+    if (newMode !== currentMode) {
+      await fs.chmod(fullPath, newMode);
+    }
+  };
+
+  restoreSnapshotFiles = async (snapshotId: string, filePaths: string[]): Promise<number> => {
+    return await this.withLock(async () => {
+      let restoredCount = 0;
+      for (const filePath of filePaths) {
+        const entry = await this.getSnapshotFileEntry(snapshotId, filePath);
+        if (!entry) {
+          continue;
+        }
+
+        const content = await this.readBlob(entry.objectId);
+        await this.writeSnapshotEntry(path.join(this.workspacePath, filePath), entry.mode, content);
+        restoredCount++;
+      }
+      return restoredCount;
+    });
+  };
+
+  // 移動されたファイルを元のパスに戻す（スナップショットの originalPath を書き戻し、移動先の renamedPath を削除）
+  restoreRenamedFile = async (snapshotId: string, originalPath: string, renamedPath: string): Promise<boolean> => {
+    return await this.withLock(async () => {
+      const restoredCount = await this.restoreSnapshotFiles(snapshotId, [originalPath]);
+      if (restoredCount === 0) {
+        return false;
+      }
+
+      await fs.rm(path.join(this.workspacePath, renamedPath), { force: true });
+      return true;
+    });
+  };
+
+  // 直近の履歴から、指定パスについて現在のワークスペースとの差分行数が最も少ないスナップショットを選ぶ
+  private findClosestSnapshot = async (paths: string[]): Promise<string> => {
+    return await this.withWorkspaceIndex(async (git) => {
+      const candidates = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['rev-list', `--max-count=${SNAPSHOT_PAGE_SIZE}`, 'HEAD']);
+        })
+      )
+        .split('\n')
+        .filter(Boolean);
+
+      let closestId = candidates[0];
+      let closestDistance = Infinity;
+      for (const candidate of candidates) {
+        const numstat = await this.retryGitOperation(async () => {
+          return await git.raw(['diff', '--cached', '--numstat', candidate, ...this.toPathspecs(paths)]);
+        });
+        // バイナリファイル（"-"）は1行の差分として数える
+        const distance = numstat
+          .split('\n')
+          .filter(Boolean)
+          .reduce((sum, line) => {
+            const [insertions, deletions] = line.split('\t');
+            return sum + (parseInt(insertions, 10) || 1) + (parseInt(deletions, 10) || 0);
+          }, 0);
+        if (distance < closestDistance) {
+          closestId = candidate;
+          closestDistance = distance;
+        }
+        if (distance === 0) {
+          break;
+        }
+      }
+      return closestId;
+    });
+  };
+
+  // スナップショットの内容を現在のファイルに3方向マージする（共通の祖先は現在の状態に最も近いスナップショット）
+  // paths を指定した場合はそのパス（フォルダ可）に限定する
+  mergeFromSnapshot = async (snapshotId: string, paths: string[] = []): Promise<SnapshotMergeResult> => {
+    return await this.withLock(async () => {
+      const baseId = await this.findClosestSnapshot(paths);
+      const result: SnapshotMergeResult = { baseId, merged: [], conflicted: [], skipped: [], deleteConflicted: [] };
+
+      const tempDir = path.join(this.config.shadowRepoPath, '.git', `merge-${process.pid}-${Date.now()}`);
+      await fs.mkdir(tempDir, { recursive: true });
+      try {
+        for (const { file, change } of await this.previewRestore(snapshotId, paths)) {
+          const fullPath = path.join(this.workspacePath, file);
+          const snapshotEntry = await this.getSnapshotFileEntry(snapshotId, file);
+          const baseEntry = await this.getSnapshotFileEntry(baseId, file);
+
+          // スナップショット側が祖先から変わっていなければ、現在の内容がそのままマージ結果になる
+          if (snapshotEntry?.objectId === baseEntry?.objectId) {
+            continue;
+          }
+
+          if (change === 'create') {
+            // 現在のファイルが無い: 祖先にあったなら、現在は削除・スナップショットでは変更の競合になる
+            if (baseEntry) {
+              result.deleteConflicted.push(file);
+              continue;
+            }
+            // 祖先にも無ければ、スナップショットで追加されたファイルとして書き戻す
+            await this.writeSnapshotEntry(fullPath, snapshotEntry!.mode, await this.readBlob(snapshotEntry!.objectId));
+            result.merged.push(file);
+            continue;
+          }
+
+          // シンボリックリンクはリンク先を内容とし、git と同じモードで表す（リンクをたどって読み書きしない）
+          const currentStat = await fs.lstat(fullPath);
+          const current = currentStat.isSymbolicLink()
+            ? Buffer.from(await fs.readlink(fullPath))
+            : await fs.readFile(fullPath);
+          const currentMode = currentStat.isSymbolicLink()
+            ? '120000'
+            : currentStat.mode & 0o111
+              ? '100755'
+              : '100644';
+          const base = baseEntry ? await this.readBlob(baseEntry.objectId) : Buffer.alloc(0);
+          const unchangedFromBase = !!baseEntry && current.equals(base) && currentMode === baseEntry.mode;
+
+          if (!snapshotEntry) {
+            // スナップショットで削除されたファイル: 祖先から変更されていなければ削除する
+            if (unchangedFromBase) {
+              await fs.rm(fullPath, { force: true });
+              result.merged.push(file);
+            } else {
+              result.deleteConflicted.push(file);
+            }
+            continue;
+          }
+
+          const theirs = await this.readBlob(snapshotEntry.objectId);
+
+          // シンボリックリンクは行単位でマージできないため、現在が祖先のままならスナップショット側に置き換える
+          if (currentMode === '120000' || snapshotEntry.mode === '120000' || baseEntry?.mode === '120000') {
+            if (unchangedFromBase) {
+              await this.writeSnapshotEntry(fullPath, snapshotEntry.mode, theirs);
+              result.merged.push(file);
+            } else {
+              result.skipped.push(file);
+            }
+            continue;
+          }
+
+          if (current.includes(0) || base.includes(0) || theirs.includes(0)) {
+            result.skipped.push(file);
+            continue;
+          }
+
+          // merge-file は current を結果で上書きする（バイト列のまま扱うため -p は使わない）
+          const currentTemp = path.join(tempDir, 'current');
+          const baseTemp = path.join(tempDir, 'base');
+          const snapshotTemp = path.join(tempDir, 'snapshot');
+          await fs.writeFile(currentTemp, current);
+          await fs.writeFile(baseTemp, base);
+          await fs.writeFile(snapshotTemp, theirs);
+          await this.retryGitOperation(async () => {
+            await simpleGit(tempDir).raw([
+              'merge-file',
+              '-L',
+              'Current',
+              '-L',
+              'Base',
+              '-L',
+              'Snapshot',
+              currentTemp,
+              baseTemp,
+              snapshotTemp,
+            ]);
+          });
+
+          // 実行権限は、現在が祖先のままならスナップショット側の変更を取り込む
+          const merged = await fs.readFile(currentTemp);
+          await this.writeSnapshotEntry(
+            fullPath,
+            baseEntry && currentMode === baseEntry.mode ? snapshotEntry.mode : currentMode,
+            merged
+          );
+          if (/^<{7} Current\r?$/m.test(merged.toString('latin1'))) {
+            result.conflicted.push(file);
+          } else {
+            result.merged.push(file);
+          }
+        }
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+
+      return result;
+    });
+  };
+
+  // 本物のインデックスを汚さないよう、現在のワークスペースを一時インデックスに取り込んでから操作する
+  private withWorkspaceIndex = async <T>(operation: (git: SimpleGit) => Promise<T>): Promise<T> => {
+    await this.initializeIfNeeded();
+
+    const gitDir = path.join(this.config.shadowRepoPath, '.git');
+    const tempIndex = path.join(gitDir, `index.workspace-${process.pid}-${Date.now()}`);
     try {
-      return await this.retryGitOperation(async () => {
-        return await git.show([`${snapshotId}:${filePath}`]);
+      // 既存のインデックスをコピーしておくと、変更のないファイルのハッシュ計算を省ける
+      await fs.copyFile(path.join(gitDir, 'index'), tempIndex).catch(() => undefined);
+      const git = this.createGit({ GIT_INDEX_FILE: tempIndex });
+      await this.retryGitOperation(async () => {
+        await git.raw(['add', '-A']);
       });
-    } catch {
-      return '';
+      return await operation(git);
+    } finally {
+      await fs.rm(tempIndex, { force: true });
     }
   };
 
-  restoreSnapshot = async (snapshotId: string): Promise<void> => {
-    await this.initializeIfNeeded();
+  private toPathspecs = (paths: string[]): string[] => {
+    return paths.length > 0 ? ['--', ...paths.map((p) => `:(top,literal)${p}`)] : [];
+  };
+
+  // paths を指定した場合はそのパス（フォルダ可）に限定する
+  previewRestore = async (snapshotId: string, paths: string[] = []): Promise<RestorePreviewFile[]> => {
+    return await this.withWorkspaceIndex(async (git) => {
+      const output = await this.retryGitOperation(async () => {
+        return await git.raw([
+          'diff',
+          '--cached',
+          '--name-status',
+          '--no-renames',
+          '-z',
+          snapshotId,
+          ...this.toPathspecs(paths),
+        ]);
+      });
+
+      // スナップショット側から見た差分なので、A は復元で削除され、D は作成される
+      const tokens = output.split('\0').filter(Boolean);
+      const files: RestorePreviewFile[] = [];
+      for (let i = 0; i + 1 < tokens.length; i += 2) {
+        const status = tokens[i];
+        const file = tokens[i + 1];
+        const change: RestoreChange = status === 'A' ? 'delete' : status === 'D' ? 'create' : 'overwrite';
+        files.push({ file, change });
+      }
+      return files;
+    });
+  };
+
+  // 復元・削除の直前にワークスペース全体を記録する（HEAD の履歴には含めず refs/safety/ に保存）
+  createSafetySnapshot = async (
+    action: SafetyAction,
+    paths: string[],
+    branchName: string,
+    description: string
+  ): Promise<string> => {
+    return await this.withLock(async () => {
+      const commitHash = await this.withWorkspaceIndex(async (git) => {
+        const tree = (
+          await this.retryGitOperation(async () => {
+            return await git.raw(['write-tree']);
+          })
+        ).trim();
+
+        const message = [
+          `Safety: ${description}`,
+          '',
+          `Branch: ${branchName}`,
+          `Safety-Action: ${action}`,
+          ...paths.map((p) => `Safety-Path: ${p}`),
+        ].join('\n');
+
+        // 親を持たないコミットにして、圧縮時に古い履歴を引き留めないようにする
+        const hash = (
+          await this.retryGitOperation(async () => {
+            return await git.raw(['commit-tree', tree, '-m', message]);
+          })
+        ).trim();
+        await this.retryGitOperation(async () => {
+          await git.raw(['update-ref', `${SAFETY_REF_PREFIX}${Date.now()}-${hash.substring(0, 7)}`, hash]);
+        });
+        return hash;
+      });
+
+      await this.pruneSafetySnapshots();
+      return commitHash.substring(0, 7);
+    });
+  };
+
+  private listSafetyRefs = async (): Promise<{ ref: string; hash: string }[]> => {
+    const git = this.getGit();
+    const output = await this.retryGitOperation(async () => {
+      return await git.raw(['for-each-ref', '--sort=-refname', '--format=%(refname) %(objectname)', SAFETY_REF_PREFIX]);
+    }).catch(() => '');
+
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [ref, hash] = line.split(' ');
+        return { ref, hash };
+      });
+  };
 
+  private pruneSafetySnapshots = async (): Promise<void> => {
     const git = this.getGit();
+    const refs = await this.listSafetyRefs();
+    for (const { ref } of refs.slice(SAFETY_SNAPSHOT_LIMIT)) {
+      await this.retryGitOperation(async () => {
+        await git.raw(['update-ref', '-d', ref]);
+      });
+    }
+  };
+
+  getLatestSafetySnapshot = async (): Promise<SafetySnapshot | null> => {
+    if (!(await this.hasShadowRepo())) {
+      return null;
+    }
 
-    // 未追跡ファイルを削除し、指定コミットに復元
-    await this.retryGitOperation(async () => {
-      await git.clean('f', ['-d']);
-      await git.reset(['--hard', snapshotId]);
+    const [latest] = await this.listSafetyRefs();
+    if (!latest) {
+      return null;
+    }
+
+    const git = this.getGit();
+    const body = await this.retryGitOperation(async () => {
+      return await git.raw(['show', '-s', '--format=%B', latest.hash]);
+    });
+    const metadata = await this.getSnapshotMetadata(latest.hash);
+    const action = (body.match(/^Safety-Action: (.+)$/m)?.[1] ?? 'restore') as SafetyAction;
+    const paths = [...body.matchAll(/^Safety-Path: (.+)$/gm)].map((match) => match[1]);
+
+    return {
+      id: metadata.id,
+      ref: latest.ref,
+      action,
+      paths,
+      description: metadata.description.replace(/^Safety: /, ''),
+      timestamp: metadata.timestamp,
+    };
+  };
+
+  // 指定したパス（フォルダ可）の中だけをスナップショットの状態に戻す
+  // exact ではスナップショットに無いファイルを削除し、overlay では残す
+  private restorePaths = async (snapshotId: string, paths: string[], mode: RestoreMode): Promise<void> => {
+    const changes = await this.previewRestore(snapshotId, paths);
+
+    if (mode === 'exact') {
+      for (const change of changes.filter((c) => c.change === 'delete')) {
+        await fs.rm(path.join(this.workspacePath, change.file), { force: true });
+      }
+    }
+    await this.restoreSnapshotFiles(
+      snapshotId,
+      changes.filter((c) => c.change !== 'delete').map((c) => c.file)
+    );
+  };
+
+  // 安全用スナップショットの対象パスを作成時の状態に戻し、使い終えた ref を削除する
+  undoSafetySnapshot = async (safety: SafetySnapshot): Promise<void> => {
+    await this.withLock(async () => {
+      await this.restorePaths(safety.id, safety.paths, 'exact');
+
+      const git = this.getGit();
+      await this.retryGitOperation(async () => {
+        await git.raw(['update-ref', '-d', safety.ref]);
+      });
+    });
+  };
+
+  // Git 操作に備えて、ワークスペースの現在の状態を GUARD_REF に保持する（履歴には追加しない）
+  // ツリーの計算は一時インデックスで行うためロックを取らず、保持している状態と同じ場合はコミットを作らない
+  // 更新した場合は true
+  updateGuardSnapshot = async (branchName: string): Promise<boolean> => {
+    // 比較と更新の間に昇格や圧縮で GUARD_REF が変わらないよう、まとめてロック内で行う
+    return await this.withLock(async () => {
+      const tree = await this.withWorkspaceIndex(async (workspaceGit) => {
+        return (
+          await this.retryGitOperation(async () => {
+            return await workspaceGit.raw(['write-tree']);
+          })
+        ).trim();
+      });
+
+      const git = this.getGit();
+      const guardTree = (await git.raw(['rev-parse', '--verify', '--quiet', `${GUARD_REF}^{tree}`]).catch(() => '')).trim();
+      if (guardTree === tree) {
+        return false;
+      }
+
+      const message = `Guard: ${branchName}\n\nBranch: ${branchName}\nGuard-Ref: ${GUARD_REF}`;
+      const hash = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['commit-tree', tree, '-m', message]);
+        })
+      ).trim();
+      await this.retryGitOperation(async () => {
+        await git.raw(['update-ref', GUARD_REF, hash]);
+      });
+      return true;
+    });
+  };
+
+  // Git 操作の前に保持していた状態を、通常のスナップショットとして履歴に追加する
+  // 保持していた状態が無い場合や、既に最新のスナップショットと同じ場合、操作後のワークスペースと同じ（何も失われていない）場合は null
+  promoteGuardSnapshot = async (
+    description: string,
+    branchName: string,
+    operation: GitOperation
+  ): Promise<SnapshotMetadata | null> => {
+    return await this.withLock(async () => {
+      await this.initializeIfNeeded();
+
+      const git = this.getGit();
+      const resolveTree = async (revision: string): Promise<string> => {
+        return (await git.raw(['rev-parse', '--verify', '--quiet', `${revision}^{tree}`]).catch(() => '')).trim();
+      };
+
+      const guardTree = await resolveTree(GUARD_REF);
+      if (!guardTree) {
+        return null;
+      }
+
+      const currentTree = await this.withWorkspaceIndex(async (workspaceGit) => {
+        return (await workspaceGit.raw(['write-tree'])).trim();
+      });
+      const headTree = await resolveTree('HEAD');
+      // ブランチの切り替えでは、作業が失われなくても切り替え前のブランチの作業として記録する
+      const keptWork = operation !== 'checkout' && guardTree === currentTree;
+      if (keptWork || guardTree === headTree) {
+        await git.raw(['update-ref', '-d', GUARD_REF]);
+        return null;
+      }
+
+      const message = `${description}\n\nBranch: ${branchName}\nTrigger: git-operation\nGit-Operation: ${operation}`;
+      const parentArgs = headTree ? ['-p', 'HEAD'] : [];
+      const hash = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['commit-tree', guardTree, ...parentArgs, '-m', message]);
+        })
+      ).trim();
+
+      // インデックスも新しいスナップショットに合わせ、部分スナップショットが古い内容を引き継がないようにする
+      await this.retryGitOperation(async () => {
+        await git.raw(['update-ref', 'HEAD', hash]);
+        await git.raw(['read-tree', hash]);
+        await git.raw(['update-ref', '-d', GUARD_REF]);
+      });
+
+      return await this.getSnapshotMetadata(hash);
+    });
+  };
+
+  restoreSnapshot = async (snapshotId: string, mode: RestoreMode = 'exact'): Promise<void> => {
+    await this.withLock(async () => {
+      await this.initializeIfNeeded();
+
+      const git = this.getGit();
+      const target = await this.getSnapshotMetadata(snapshotId);
+      const scope = target.scope ?? [];
+
+      if (scope.length > 0) {
+        // 部分スナップショットは対象パスの中だけを戻し、それ以外のファイルには触れない
+        await this.restorePaths(snapshotId, scope, mode);
+        await this.retryGitOperation(async () => {
+          await git.raw(['add', '-A', ...this.toPathspecs(scope)]);
+        });
+      } else if (mode === 'exact') {
+        // 未追跡ファイルを削除し、HEAD を動かさずにインデックスとワークツリーだけを指定コミットに合わせる
+        // (reset --hard だと以降のスナップショットが履歴から辿れなくなる)
+        await this.retryGitOperation(async () => {
+          await git.clean('f', ['-d']);
+          await git.raw(['read-tree', '-u', '--reset', snapshotId]);
+        });
+      } else {
+        // スナップショットにあるファイルだけを書き戻し、残ったファイルも含めた結果をステージする
+        await this.retryGitOperation(async () => {
+          await git.raw(['checkout', snapshotId, '--', ':(top)']);
+          await git.raw(['add', '-A']);
+        });
+      }
+
+      // 既に最新スナップショットと同じ状態なら記録不要
+      const status = await git.status();
+      if (status.staged.length === 0 && status.renamed.length === 0) {
+        return;
+      }
+
+      // 復元自体を新しいスナップショットとして記録し、いつでも復元前の状態に戻れるようにする
+      const scopeTrailers = scope.map((p) => `\nScope: ${p}`).join('');
+      const commitMessage = `Restore: ${target.description}\n\nBranch: ${target.branchName}\nRestored-From: ${target.id}\nRestore-Mode: ${mode}${scopeTrailers}`;
+
+      await this.retryGitOperation(async () => {
+        await git.commit(commitMessage);
+      });
     });
   };
 
   deleteSnapshot = async (snapshotId: string): Promise<void> => {
-    await this.addDeletedId(snapshotId);
+    await this.withLock(async () => {
+      await this.metadataStore.update((snapshots) => {
+        snapshots[snapshotId] = { ...snapshots[snapshotId], deleted: true };
+      });
+    });
   };
 
   renameSnapshot = async (snapshotId: string, newName: string): Promise<void> => {
-    const map = await this.getRenamedMap();
-    map.set(snapshotId, newName);
-    await this.setRenamedMap(map);
+    await this.withLock(async () => {
+      await this.metadataStore.update((snapshots) => {
+        snapshots[snapshotId] = { ...snapshots[snapshotId], name: newName };
+      });
+    });
   };
 
   getRenamedIds = async (): Promise<Set<string>> => {
-    const map = await this.getRenamedMap();
-    return new Set(map.keys());
+    const records = await this.getSnapshotRecords();
+    return new Set(Object.keys(records).filter((id) => records[id].name));
   };
 
-  private getFavoriteIds = async (): Promise<Set<string>> => {
-    try {
-      const content = await fs.readFile(this.favoritesFilePath, 'utf-8');
-      return new Set(content.split('\n').filter(Boolean));
-    } catch {
-      return new Set();
-    }
+  toggleFavorite = async (id: string): Promise<boolean> => {
+    return await this.withLock(async () => {
+      let isFavorite = false;
+      await this.metadataStore.update((snapshots) => {
+        isFavorite = !snapshots[id]?.favorite;
+        snapshots[id] = { ...snapshots[id], favorite: isFavorite || undefined };
+      });
+      return isFavorite;
+    });
   };
 
-  private addFavoriteId = async (id: string): Promise<void> => {
-    const favoriteIds = await this.getFavoriteIds();
-    favoriteIds.add(id);
-    await fs.writeFile(this.favoritesFilePath, [...favoriteIds].join('\n'));
+  deleteOldSnapshots = async (retentionDays: number): Promise<number> => {
+    return await this.withLock(async () => {
+      const snapshots = await this.listSnapshots();
+      const now = new Date();
+      const cutoffDate = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+      let deletedCount = 0;
+      for (const snapshot of snapshots) {
+        // Skip favorites
+        if (snapshot.isFavorite) {
+          continue;
+        }
+
+        // Delete if older than cutoff date
+        if (snapshot.timestamp < cutoffDate) {
+          await this.deleteSnapshot(snapshot.id);
+          deletedCount++;
+        }
+      }
+
+      return deletedCount;
+    });
   };
 
-  private removeFavoriteId = async (id: string): Promise<void> => {
-    const favoriteIds = await this.getFavoriteIds();
-    favoriteIds.delete(id);
-    await fs.writeFile(this.favoritesFilePath, [...favoriteIds].join('\n'));
+  // 保持ポリシーで削除されるスナップショットを求める（削除はしない）
+  planCleanup = async (policy: RetentionPolicy, mergedBranches: string[] = []): Promise<RetentionCandidate[]> => {
+    const snapshots = await this.listSnapshots();
+    const storageSize = policy.maxSizeBytes > 0 && (await this.hasShadowRepo()) ? await this.getStorageSize() : 0;
+    return selectSnapshotsToDelete(snapshots, policy, new Date(), storageSize, new Set(mergedBranches));
   };
 
-  toggleFavorite = async (id: string): Promise<boolean> => {
-    const favoriteIds = await this.getFavoriteIds();
-    if (favoriteIds.has(id)) {
-      await this.removeFavoriteId(id);
-      return false;
-    } else {
-      await this.addFavoriteId(id);
-      return true;
+  applyCleanup = async (candidates: RetentionCandidate[]): Promise<number> => {
+    return await this.withLock(async () => {
+      await this.metadataStore.update((snapshots) => {
+        for (const { snapshot } of candidates) {
+          snapshots[snapshot.id] = { ...snapshots[snapshot.id], deleted: true };
+        }
+      });
+      return candidates.length;
+    });
+  };
+
+  getStorageSize = async (): Promise<number> => {
+    const git = this.getGit();
+    const output = await this.retryGitOperation(async () => {
+      return await git.raw(['count-objects', '-v']);
+    });
+
+    // size / size-pack / size-garbage は KiB 単位
+    let kib = 0;
+    for (const line of output.split('\n')) {
+      const [key, value] = line.split(': ');
+      if (key === 'size' || key === 'size-pack' || key === 'size-garbage') {
+        kib += parseInt(value, 10) || 0;
+      }
     }
+    return kib * 1024;
   };
 
-  deleteOldSnapshots = async (retentionDays: number): Promise<number> => {
-    const snapshots = await this.listSnapshots();
-    const now = new Date();
-    const cutoffDate = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  // removeLostSnapshots が false の場合、まだ復旧されていない失われたスナップショットは ref を張って残す
+  compactStorage = async (removeLostSnapshots = false): Promise<CompactStorageResult> => {
+    return await this.withLock(async () => {
+      await this.initializeIfNeeded();
 
-    let deletedCount = 0;
-    for (const snapshot of snapshots) {
-      // Skip favorites
-      if (snapshot.isFavorite) {
-        continue;
+      const git = this.getGit();
+      const sizeBefore = await this.getStorageSize();
+      // 書き換え後は古いコミットも reflog からしか辿れなくなるため、書き換える前に求める
+      const lostHashes = removeLostSnapshots ? [] : (await this.findLostCommits()).map(({ hash }) => hash);
+      const records = await this.getSnapshotRecords();
+      const deletedIds = new Set(Object.keys(records).filter((id) => records[id].deleted));
+
+      const recoveredRefs = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['for-each-ref', '--format=%(refname)', RECOVERED_REF_PREFIX]);
+        })
+      )
+        .split('\n')
+        .filter(Boolean);
+
+      const oldHead = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['rev-parse', '--verify', '--quiet', 'HEAD']);
+        }).catch(() => '')
+      ).trim();
+
+      // 親より後になる順に全コミットを取得（フィールドは %x1f、コミットは %x1e で区切る）
+      let logOutput = '';
+      try {
+        logOutput = await this.retryGitOperation(async () => {
+          return await git.raw([
+            'log',
+            '--reverse',
+            '--topo-order',
+            '--format=%H%x1f%P%x1f%T%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%B%x1e',
+            ...this.historyRevisions,
+          ]);
+        });
+      } catch {
+        // コミットがまだない
       }
 
-      // Delete if older than cutoff date
-      if (snapshot.timestamp < cutoffDate) {
-        await this.deleteSnapshot(snapshot.id);
-        deletedCount++;
+      const commits = logOutput
+        .split('\x1e')
+        .map((record) => record.replace(/^\n/, ''))
+        .filter(Boolean)
+        .map((record) => {
+          const [
+            hash,
+            parents,
+            tree,
+            authorName,
+            authorEmail,
+            authorDate,
+            committerName,
+            committerEmail,
+            committerDate,
+            body,
+          ] = record.split('\x1f');
+          return {
+            hash,
+            parents: parents.split(' ').filter(Boolean),
+            tree,
+            authorName,
+            authorEmail,
+            authorDate,
+            committerName,
+            committerEmail,
+            committerDate,
+            body,
+          };
+        });
+
+      const removedCount = commits.filter((commit) => deletedIds.has(commit.hash.substring(0, 7))).length;
+
+      if (removedCount > 0) {
+        // 削除済みを除いてコミットを作り直す（日時・作成者・親子関係はそのまま）
+        // 削除したコミットは、その親（残っている最も近い祖先）に置き換える
+        const replacements = new Map<string, string[]>();
+        const idMap = new Map<string, string>();
+        const replace = (hashes: string[]): string[] => [
+          ...new Set(hashes.flatMap((hash) => replacements.get(hash) ?? [])),
+        ];
+
+        for (const commit of commits) {
+          const newParents = replace(commit.parents);
+          if (deletedIds.has(commit.hash.substring(0, 7))) {
+            replacements.set(commit.hash, newParents);
+            continue;
+          }
+
+          // 親が変わらないコミットはそのまま使う
+          if (newParents.length === commit.parents.length && newParents.every((p, i) => p === commit.parents[i])) {
+            replacements.set(commit.hash, [commit.hash]);
+            idMap.set(commit.hash.substring(0, 7), commit.hash.substring(0, 7));
+            continue;
+          }
+
+          const commitGit = this.createGit({
+            GIT_AUTHOR_NAME: commit.authorName,
+            GIT_AUTHOR_EMAIL: commit.authorEmail,
+            GIT_AUTHOR_DATE: commit.authorDate,
+            GIT_COMMITTER_NAME: commit.committerName,
+            GIT_COMMITTER_EMAIL: commit.committerEmail,
+            GIT_COMMITTER_DATE: commit.committerDate,
+          });
+          const parentArgs = newParents.flatMap((parent) => ['-p', parent]);
+          const message = commit.body.replace(/\n+$/, '');
+          const newHash: string = (
+            await this.retryGitOperation(async () => {
+              return await commitGit.raw(['commit-tree', commit.tree, ...parentArgs, '-m', message]);
+            })
+          ).trim();
+
+          replacements.set(commit.hash, [newHash]);
+          idMap.set(commit.hash.substring(0, 7), newHash.substring(0, 7));
+        }
+
+        // 実行中に別プロセスがスナップショットを追加していたら update-ref が失敗して中断される
+        const [newHead] = oldHead ? replace([oldHead]) : [];
+        if (newHead) {
+          await this.retryGitOperation(async () => {
+            await git.raw(['update-ref', 'HEAD', newHead, oldHead]);
+          });
+        } else if (oldHead) {
+          await this.retryGitOperation(async () => {
+            await git.raw(['update-ref', '-d', 'HEAD', oldHead]);
+          });
+        }
+
+        // 復元したスナップショットは本線に混ぜず、書き換えた先を指す別の ref のまま残す
+        for (const ref of recoveredRefs) {
+          const oldTarget = (
+            await this.retryGitOperation(async () => {
+              return await git.raw(['rev-parse', ref]);
+            })
+          ).trim();
+          const [newTarget] = replace([oldTarget]);
+          if (newTarget === oldTarget) {
+            continue;
+          }
+          await this.retryGitOperation(async () => {
+            await git.raw(['update-ref', '-d', ref]);
+            if (newTarget) {
+              await git.raw(['update-ref', `${RECOVERED_REF_PREFIX}${newTarget}`, newTarget]);
+            }
+          });
+        }
+
+        // 名前・お気に入りなどを新しいハッシュに付け替え、削除済みのレコードは捨てる
+        await this.metadataStore.update((snapshots) => {
+          const remapped: Record<string, SnapshotRecord> = {};
+          for (const [id, record] of Object.entries(snapshots)) {
+            const newId = idMap.get(id);
+            if (newId && !record.deleted) {
+              remapped[newId] = record;
+            }
+          }
+          for (const id of Object.keys(snapshots)) {
+            delete snapshots[id];
+          }
+          Object.assign(snapshots, remapped);
+        });
       }
-    }
 
-    return deletedCount;
+      const lostRefs = (
+        await this.retryGitOperation(async () => {
+          return await git.raw(['for-each-ref', '--format=%(refname)', LOST_REF_PREFIX]);
+        })
+      )
+        .split('\n')
+        .filter(Boolean);
+      await this.retryGitOperation(async () => {
+        if (removeLostSnapshots) {
+          for (const ref of lostRefs) {
+            await git.raw(['update-ref', '-d', ref]);
+          }
+        }
+        for (const hash of lostHashes) {
+          await git.raw(['update-ref', `${LOST_REF_PREFIX}${hash}`, hash]);
+        }
+      });
+
+      // 到達不能になったオブジェクトを削除して再パック
+      await this.retryGitOperation(async () => {
+        await git.raw(['reflog', 'expire', '--expire=now', '--expire-unreachable=now', '--all']);
+        await git.raw(['gc', '--prune=now', '--quiet']);
+      });
+
+      const sizeAfter = await this.getStorageSize();
+
+      return {
+        removedCount,
+        sizeBefore,
+        sizeAfter,
+      };
+    });
   };
 
   private formatDate = (date: Date, format: string): string => {
@@ -494,6 +1632,17 @@ export class ShadowGitService {
     return template.replace('${branch}', branchName).replace('${date}', dateStr);
   };
 
+  // Claude フックと OpenCode プラグインは、ブランチ名の前に作成元を付けて保存する
+  private parseSource = (originalBranch: string, hasTrigger: boolean): SnapshotSource => {
+    if (/^\[Claude\]/i.test(originalBranch)) {
+      return 'claude';
+    }
+    if (/^\[OpenCode\]/i.test(originalBranch)) {
+      return 'opencode';
+    }
+    return hasTrigger ? 'auto' : 'manual';
+  };
+
   private parseCommitMetadata = (commit: {
     hash: string;
     message: string;
@@ -509,7 +1658,10 @@ export class ShadowGitService {
     if (trailerMatch) {
       const originalBranch = trailerMatch[1];
       const isClaudeCreated = /^\[Claude\]/i.test(originalBranch);
-      const branchName = originalBranch.replace(/^\[Claude\]\s*/, '');
+      const branchName = originalBranch.replace(/^\[(Claude|OpenCode)\]\s*/i, '');
+      const scope = [...body.matchAll(/^Scope: (.+)$/gm)].map((match) => match[1]);
+      const unsavedFiles = [...body.matchAll(/^Unsaved: (.+)$/gm)].map((match) => match[1]);
+      const triggerMatch = body.match(/^Trigger: (.+)$/m);
       return {
         id: commit.hash.substring(0, 7),
         branchName,
@@ -517,6 +1669,12 @@ export class ShadowGitService {
         description: message,
         fullMessage,
         isClaudeCreated,
+        // Git 操作に備えて保持した状態も一覧や復旧の対象にしない
+        isSafetySnapshot: /^(Safety-Action|Guard-Ref): /m.test(body),
+        ...(scope.length > 0 && { scope }),
+        ...(unsavedFiles.length > 0 && { unsavedFiles }),
+        ...(triggerMatch && { trigger: triggerMatch[1] as SnapshotTrigger }),
+        source: this.parseSource(originalBranch, !!triggerMatch),
       };
     }
 
@@ -525,7 +1683,7 @@ export class ShadowGitService {
     if (oldFormatMatch) {
       const originalBranch = oldFormatMatch[1];
       const isClaudeCreated = /^\[Claude\]/i.test(originalBranch);
-      const branchName = originalBranch.replace(/^\[Claude\]\s*/, '');
+      const branchName = originalBranch.replace(/^\[(Claude|OpenCode)\]\s*/i, '');
       const parsedDate = new Date(oldFormatMatch[2]);
       return {
         id: commit.hash.substring(0, 7),
@@ -534,6 +1692,7 @@ export class ShadowGitService {
         description: message,
         fullMessage,
         isClaudeCreated,
+        source: this.parseSource(originalBranch, false),
       };
     }
 
@@ -545,6 +1704,7 @@ export class ShadowGitService {
       description: message,
       fullMessage,
       isClaudeCreated: false,
+      source: 'manual',
     };
   };
 }
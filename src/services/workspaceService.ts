@@ -61,6 +61,42 @@ export class WorkspaceService {
     }
   };
 
+  // 既定のブランチ（origin/HEAD、無ければ main か master）に統合済みのローカルブランチ（既定のブランチ自身は除く）
+  getMergedBranches = async (): Promise<string[]> => {
+    try {
+      const baseRef = await this.getDefaultBranchRef();
+      if (!baseRef) {
+        return [];
+      }
+      const baseBranch = baseRef.replace(/^origin\//, '');
+      const output = await this.git.raw(['branch', '--format=%(refname:short)', '--merged', baseRef]);
+      return output
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((branch) => branch && branch !== baseBranch);
+    } catch {
+      return [];
+    }
+  };
+
+  private getDefaultBranchRef = async (): Promise<string | null> => {
+    try {
+      const remoteHead = await this.git.raw(['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD']);
+      if (remoteHead.trim()) {
+        return remoteHead.trim();
+      }
+    } catch {
+      // origin/HEAD が無い場合はローカルのブランチから探す
+    }
+    for (const branch of ['main', 'master']) {
+      const hash = await this.git.raw(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+      if (hash.trim()) {
+        return branch;
+      }
+    }
+    return null;
+  };
+
   getActualGitRoot = async (): Promise<string | null> => {
     try {
       // For worktrees, get the actual main repository path
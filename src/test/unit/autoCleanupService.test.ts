@@ -5,6 +5,7 @@ import * as os from 'os';
 import simpleGit from 'simple-git';
 import { AutoCleanupService } from '../../services/autoCleanupService';
 import { ShadowGitService } from '../../services/shadowGitService';
+import { WorkspaceService } from '../../services/workspaceService';
 import { SHADOW_REPO_BASE_PATH } from '../../utils/constants';
 import { generateRepoIdentifier } from '../../utils/hashUtils';
 
@@ -36,7 +37,10 @@ suite('AutoCleanupService', () => {
     shadowGitService = new ShadowGitService(null, workspaceDir);
 
     // Create cleanup service
-    autoCleanupService = new AutoCleanupService(() => shadowGitService);
+    const workspaceService = new WorkspaceService(workspaceDir);
+    autoCleanupService = new AutoCleanupService(() => [
+      { name: 'workspace', gitRoot: workspaceDir, workspaceService, shadowGitService },
+    ]);
   });
 
   teardown(async () => {
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import {
+  applyReplacements,
+  clipHunksToRange,
+  computeHunks,
+  findHunksInRange,
+  splitLines,
+  toReplacements,
+} from '../../utils/hunkUtils';
+
+suite('hunkUtils', () => {
+  suite('splitLines', () => {
+    test('should keep line endings so the lines join back to the original text', () => {
+      const text = 'one\ntwo\r\nthree';
+
+      const lines = splitLines(text);
+
+      assert.deepStrictEqual(lines, ['one\n', 'two\r\n', 'three']);
+      assert.strictEqual(lines.join(''), text);
+    });
+
+    test('should return no lines for empty text', () => {
+      assert.deepStrictEqual(splitLines(''), []);
+    });
+  });
+
+  suite('computeHunks', () => {
+    test('should return no hunks for identical text', () => {
+      const lines = splitLines('a\nb\nc\n');
+
+      assert.deepStrictEqual(computeHunks(lines, lines), []);
+    });
+
+    test('should separate changes in different parts of the file', () => {
+      const current = splitLines('a\nB\nc\nd\ne\nf\nG\n');
+      const snapshot = splitLines('a\nb\nc\nd\ne\nf\ng\n');
+
+      const hunks = computeHunks(current, snapshot);
+
+      assert.strictEqual(hunks.length, 2);
+      assert.deepStrictEqual(hunks[0].currentLines, ['B\n']);
+      assert.deepStrictEqual(hunks[0].snapshotLines, ['b\n']);
+      assert.strictEqual(hunks[0].currentStart, 1);
+      assert.deepStrictEqual(hunks[1].currentLines, ['G\n']);
+      assert.deepStrictEqual(hunks[1].snapshotLines, ['g\n']);
+      assert.strictEqual(hunks[1].currentStart, 6);
+    });
+
+    test('should report lines added and removed since the snapshot', () => {
+      const current = splitLines('a\nnew\nb\nd\n');
+      const snapshot = splitLines('a\nb\nc\nd\n');
+
+      const hunks = computeHunks(current, snapshot);
+
+      assert.deepStrictEqual(
+        hunks.map((hunk) => [hunk.currentStart, hunk.currentEnd, hunk.snapshotStart, hunk.snapshotEnd]),
+        [
+          [1, 2, 1, 1],
+          [3, 3, 2, 3],
+        ]
+      );
+    });
+
+    test('should handle files that were empty on one side', () => {
+      const hunks = computeHunks([], splitLines('a\nb\n'));
+
+      assert.strictEqual(hunks.length, 1);
+      assert.deepStrictEqual(hunks[0].snapshotLines, ['a\n', 'b\n']);
+      assert.strictEqual(hunks[0].currentStart, 0);
+      assert.strictEqual(hunks[0].currentEnd, 0);
+    });
+  });
+
+  suite('findHunksInRange', () => {
+    const current = splitLines('a\nB\nc\nd\nf\n');
+    const snapshot = splitLines('a\nb\nc\nd\ne\nf\n');
+    const hunks = computeHunks(current, snapshot);
+
+    test('should pick hunks overlapping the selected lines', () => {
+      assert.deepStrictEqual(findHunksInRange(hunks, 0, 1), [hunks[0]]);
+      assert.deepStrictEqual(findHunksInRange(hunks, 2, 2), []);
+    });
+
+    test('should pick a removed block when the selection touches where it was', () => {
+      // "e" は現在のファイルの 4 行目（0始まり）の前に挿入される
+      assert.deepStrictEqual(findHunksInRange(hunks, 3, 3), [hunks[1]]);
+      assert.deepStrictEqual(findHunksInRange(hunks, 4, 4), [hunks[1]]);
+    });
+  });
+
+  suite('clipHunksToRange', () => {
+    test('should restore only the selected lines of a hunk', () => {
+      const currentText = 'a\nB\nC\nD\ne\n';
+      const current = splitLines(currentText);
+      const hunks = computeHunks(current, splitLines('a\nb\nc\nd\ne\n'));
+
+      const clipped = clipHunksToRange(hunks, 2, 2);
+
+      assert.deepStrictEqual(clipped[0].currentLines, ['C\n']);
+      assert.deepStrictEqual(clipped[0].snapshotLines, ['c\n']);
+      assert.strictEqual(applyReplacements(currentText, toReplacements(current, clipped)), 'a\nB\nc\nD\ne\n');
+    });
+
+    test('should include the remaining snapshot lines when the selection reaches the end of a hunk', () => {
+      const currentText = 'a\nB\nC\ne\n';
+      const current = splitLines(currentText);
+      const hunks = computeHunks(current, splitLines('a\nb\nc\nd\ne\n'));
+
+      const clipped = clipHunksToRange(hunks, 2, 3);
+
+      assert.strictEqual(applyReplacements(currentText, toReplacements(current, clipped)), 'a\nB\nc\nd\ne\n');
+    });
+
+    test('should keep the whole hunk when the selection covers it', () => {
+      const current = splitLines('a\nB\nc\n');
+      const hunks = computeHunks(current, splitLines('a\nb\nc\n'));
+
+      assert.deepStrictEqual(clipHunksToRange(hunks, 0, 2), hunks);
+    });
+  });
+
+  suite('toReplacements and applyReplacements', () => {
+    test('should restore only the selected hunks and keep other edits', () => {
+      const currentText = 'a\nB\nc\nd\ne\nf\nG\n';
+      const current = splitLines(currentText);
+      const hunks = computeHunks(current, splitLines('a\nb\nc\nd\ne\nf\ng\n'));
+
+      const result = applyReplacements(currentText, toReplacements(current, [hunks[1]]));
+
+      assert.strictEqual(result, 'a\nB\nc\nd\ne\nf\ng\n');
+    });
+
+    test('should restore the whole snapshot when every hunk is applied', () => {
+      const currentText = 'x\na\nnew\nb\nd';
+      const snapshotText = 'a\nb\nc\nd\n';
+      const current = splitLines(currentText);
+      const hunks = computeHunks(current, splitLines(snapshotText));
+
+      assert.strictEqual(applyReplacements(currentText, toReplacements(current, hunks)), snapshotText);
+    });
+  });
+});
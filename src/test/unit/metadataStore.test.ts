@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { MetadataStore, METADATA_FILE_NAME, METADATA_STORE_VERSION } from '../../services/metadataStore';
+
+suite('MetadataStore', () => {
+  let tempDir: string;
+  let store: MetadataStore;
+
+  const fileExists = async (fileName: string): Promise<boolean> => {
+    try {
+      await fs.access(path.join(tempDir, fileName));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  setup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-checkpoints-metadata-test-'));
+    store = new MetadataStore(tempDir);
+  });
+
+  teardown(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  suite('read', () => {
+    test('should return an empty store when nothing has been written', async () => {
+      const data = await store.read();
+
+      assert.strictEqual(data.version, METADATA_STORE_VERSION);
+      assert.deepStrictEqual(data.snapshots, {});
+      assert.strictEqual(await fileExists(METADATA_FILE_NAME), false);
+    });
+
+    test('should migrate legacy files and remove them', async () => {
+      await fs.writeFile(path.join(tempDir, '.deleted'), 'aaaaaaa\nbbbbbbb\n');
+      await fs.writeFile(path.join(tempDir, '.renamed'), 'ccccccc\tMy custom name\n');
+      await fs.writeFile(path.join(tempDir, '.favorites'), 'ccccccc\n');
+
+      const data = await store.read();
+
+      assert.deepStrictEqual(data.snapshots, {
+        aaaaaaa: { deleted: true },
+        bbbbbbb: { deleted: true },
+        ccccccc: { name: 'My custom name', favorite: true },
+      });
+      assert.strictEqual(await fileExists(METADATA_FILE_NAME), true);
+      assert.strictEqual(await fileExists('.deleted'), false);
+      assert.strictEqual(await fileExists('.renamed'), false);
+      assert.strictEqual(await fileExists('.favorites'), false);
+    });
+
+    test('should migrate legacy files once when read concurrently', async () => {
+      await fs.writeFile(path.join(tempDir, '.renamed'), 'ccccccc\tMy custom name\n');
+      const otherStore = new MetadataStore(tempDir);
+
+      const results = await Promise.all([store.read(), otherStore.read()]);
+
+      for (const data of results) {
+        assert.deepStrictEqual(data.snapshots, { ccccccc: { name: 'My custom name' } });
+      }
+      assert.strictEqual(await fileExists('.renamed'), false);
+    });
+  });
+
+  suite('update', () => {
+    test('should persist changes as versioned JSON', async () => {
+      await store.update((snapshots) => {
+        snapshots['aaaaaaa'] = { name: 'Named', tags: ['auth'], note: 'Working login' };
+      });
+
+      const content = JSON.parse(await fs.readFile(path.join(tempDir, METADATA_FILE_NAME), 'utf-8'));
+      assert.strictEqual(content.version, METADATA_STORE_VERSION);
+      assert.deepStrictEqual(content.snapshots.aaaaaaa, { name: 'Named', tags: ['auth'], note: 'Working login' });
+    });
+
+    test('should preserve unknown fields', async () => {
+      await fs.writeFile(
+        path.join(tempDir, METADATA_FILE_NAME),
+        JSON.stringify({
+          version: METADATA_STORE_VERSION,
+          extra: 'top-level',
+          snapshots: { aaaaaaa: { name: 'Named', color: 'red' } },
+        })
+      );
+
+      await store.update((snapshots) => {
+        snapshots['aaaaaaa'].favorite = true;
+      });
+
+      const content = JSON.parse(await fs.readFile(path.join(tempDir, METADATA_FILE_NAME), 'utf-8'));
+      assert.strictEqual(content.extra, 'top-level');
+      assert.deepStrictEqual(content.snapshots.aaaaaaa, { name: 'Named', color: 'red', favorite: true });
+    });
+
+    test('should drop records that become empty', async () => {
+      await store.update((snapshots) => {
+        snapshots['aaaaaaa'] = { favorite: true };
+      });
+      await store.update((snapshots) => {
+        snapshots['aaaaaaa'].favorite = undefined;
+      });
+
+      const data = await store.read();
+      assert.deepStrictEqual(data.snapshots, {});
+    });
+
+    test('should refuse to overwrite a store written by a newer version', async () => {
+      await fs.writeFile(
+        path.join(tempDir, METADATA_FILE_NAME),
+        JSON.stringify({ version: METADATA_STORE_VERSION + 1, snapshots: {} })
+      );
+
+      await assert.rejects(
+        store.update((snapshots) => {
+          snapshots['aaaaaaa'] = { deleted: true };
+        }),
+        /newer version/
+      );
+    });
+
+    test('should move an unparseable store aside instead of overwriting it', async () => {
+      const corruptContent = '{"version": 1, "snapshots": {"aaaaaaa": {"name": "Trunc';
+      await fs.writeFile(path.join(tempDir, METADATA_FILE_NAME), corruptContent);
+
+      await store.update((snapshots) => {
+        snapshots['bbbbbbb'] = { favorite: true };
+      });
+
+      const backups = (await fs.readdir(tempDir)).filter((file) => file.startsWith(`${METADATA_FILE_NAME}.corrupt-`));
+      assert.strictEqual(backups.length, 1);
+      assert.strictEqual(await fs.readFile(path.join(tempDir, backups[0]), 'utf-8'), corruptContent);
+      assert.deepStrictEqual((await store.read()).snapshots, { bbbbbbb: { favorite: true } });
+    });
+
+    test('should not leave temporary files behind', async () => {
+      await store.update((snapshots) => {
+        snapshots['aaaaaaa'] = { deleted: true };
+      });
+
+      const files = await fs.readdir(tempDir);
+      assert.deepStrictEqual(files, [METADATA_FILE_NAME]);
+    });
+  });
+});
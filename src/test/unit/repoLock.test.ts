@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import fsModule = require('fs/promises');
+import * as os from 'os';
+import * as path from 'path';
+import { isRepoLockHeld, readRepoLockOwner, withRepoLock } from '../../utils/repoLock';
+import { REPO_LOCK_DIR_NAME, REPO_LOCK_OWNER_FILE_NAME } from '../../utils/constants';
+
+suite('repoLock', () => {
+  let tempDir: string;
+
+  const writeOwner = async (pid: number, host: string, created: number): Promise<void> => {
+    const lockDir = path.join(tempDir, REPO_LOCK_DIR_NAME);
+    await fs.mkdir(lockDir, { recursive: true });
+    await fs.writeFile(
+      path.join(lockDir, REPO_LOCK_OWNER_FILE_NAME),
+      `pid=${pid}\nhost=${host}\nclient=claude\ncreated=${created}\n`
+    );
+  };
+
+  const lockExists = async (): Promise<boolean> => {
+    try {
+      await fs.access(path.join(tempDir, REPO_LOCK_DIR_NAME));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  setup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-checkpoints-lock-test-'));
+  });
+
+  teardown(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record the owner while held and release afterwards', async () => {
+    await withRepoLock(tempDir, async () => {
+      const owner = await readRepoLockOwner(tempDir);
+      assert.ok(owner);
+      assert.strictEqual(owner.pid, process.pid);
+      assert.strictEqual(owner.host, os.hostname());
+      assert.strictEqual(owner.client, 'vscode');
+      assert.ok(isRepoLockHeld(tempDir));
+    });
+
+    assert.strictEqual(await lockExists(), false);
+    assert.strictEqual(isRepoLockHeld(tempDir), false);
+  });
+
+  test('should release the lock when the operation throws', async () => {
+    await assert.rejects(
+      withRepoLock(tempDir, async () => {
+        throw new Error('boom');
+      }),
+      /boom/
+    );
+
+    assert.strictEqual(await lockExists(), false);
+  });
+
+  test('should serialize concurrent operations', async () => {
+    const events: string[] = [];
+    const run = (name: string) =>
+      withRepoLock(tempDir, async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        events.push(`${name}:end`);
+      });
+
+    await Promise.all([run('a'), run('b')]);
+
+    assert.deepStrictEqual(events.length, 4);
+    assert.strictEqual(events[0].split(':')[0], events[1].split(':')[0]);
+    assert.strictEqual(events[2].split(':')[0], events[3].split(':')[0]);
+  });
+
+  test('should be re-entrant within the same operation', async () => {
+    const result = await withRepoLock(tempDir, async () => {
+      return await withRepoLock(tempDir, async () => 'nested', 200);
+    });
+
+    assert.strictEqual(result, 'nested');
+  });
+
+  test('should take over a lock left by a dead process on this host', async () => {
+    // PID の上限を超える値は存在しないプロセスとして扱われる
+    await writeOwner(2 ** 22 + 1, os.hostname(), Math.floor(Date.now() / 1000));
+
+    const result = await withRepoLock(tempDir, async () => 'acquired', 1000);
+
+    assert.strictEqual(result, 'acquired');
+    assert.strictEqual(await lockExists(), false);
+  });
+
+  test('should take over a lock older than the stale timeout', async () => {
+    await writeOwner(process.pid, 'other-host', Math.floor(Date.now() / 1000) - 60 * 60);
+
+    const result = await withRepoLock(tempDir, async () => 'acquired', 1000);
+
+    assert.strictEqual(result, 'acquired');
+  });
+
+  test('should not take over a live lock on this host however old it is', async () => {
+    await writeOwner(process.pid, os.hostname(), Math.floor(Date.now() / 1000) - 60 * 60);
+
+    await assert.rejects(withRepoLock(tempDir, async () => 'acquired', 300), /locked by claude/);
+    assert.strictEqual(await lockExists(), true);
+  });
+
+  test('should leave a lock alone when another client replaced the stale one first', async () => {
+    await writeOwner(2 ** 22 + 1, os.hostname(), Math.floor(Date.now() / 1000));
+    const lockDir = path.join(tempDir, REPO_LOCK_DIR_NAME);
+
+    // 古いと判定してからリネームするまでの間に、別のクライアントが古いロックを消して取得した状態を作る
+    const originalRename = fsModule.rename;
+    let replaced = false;
+    fsModule.rename = async (oldPath, newPath) => {
+      if (!replaced && oldPath === lockDir) {
+        replaced = true;
+        await fs.rm(lockDir, { recursive: true });
+        await writeOwner(process.pid, os.hostname(), Math.floor(Date.now() / 1000));
+      }
+      return await originalRename(oldPath, newPath);
+    };
+    try {
+      await assert.rejects(withRepoLock(tempDir, async () => 'acquired', 300), /locked by claude/);
+    } finally {
+      fsModule.rename = originalRename;
+    }
+
+    assert.ok(replaced);
+    assert.strictEqual((await readRepoLockOwner(tempDir))?.pid, process.pid);
+    const leftovers = (await fs.readdir(tempDir)).filter((name) => name !== REPO_LOCK_DIR_NAME);
+    assert.deepStrictEqual(leftovers, []);
+  });
+
+  test('should time out while a live process holds the lock', async () => {
+    await writeOwner(process.pid, os.hostname(), Math.floor(Date.now() / 1000));
+
+    await assert.rejects(
+      withRepoLock(tempDir, async () => 'acquired', 300),
+      /locked by claude \(pid \d+\)/
+    );
+
+    // 他のクライアントのロックは消さない
+    assert.strictEqual(await lockExists(), true);
+  });
+});
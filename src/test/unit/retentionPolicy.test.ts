@@ -0,0 +1,190 @@
+import * as assert from 'assert';
+import { matchesBranchPattern, selectSnapshotsToDelete } from '../../utils/retentionPolicy';
+import { RetentionPolicy, SnapshotMetadata } from '../../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+suite('retentionPolicy', () => {
+  const now = new Date('2026-10-01T12:00:00Z');
+  const noLimits: RetentionPolicy = { retentionDays: 0, rules: [], tiers: [], maxCount: 0, maxSizeBytes: 0 };
+
+  const snapshotAt = (id: string, hoursAgo: number, extra: Partial<SnapshotMetadata> = {}): SnapshotMetadata => ({
+    id,
+    branchName: 'main',
+    timestamp: new Date(now.getTime() - hoursAgo * HOUR_MS),
+    description: id,
+    ...extra,
+  });
+
+  const deletedIds = (snapshots: SnapshotMetadata[], policy: RetentionPolicy, storageSize?: number) =>
+    selectSnapshotsToDelete(snapshots, policy, now, storageSize).map(({ snapshot }) => snapshot.id).sort();
+
+  test('should delete nothing when no limits are set', () => {
+    const snapshots = [snapshotAt('a', 1), snapshotAt('b', 24 * 400)];
+
+    assert.deepStrictEqual(deletedIds(snapshots, noLimits), []);
+  });
+
+  test('should delete snapshots older than the retention period', () => {
+    const snapshots = [snapshotAt('recent', 24), snapshotAt('old', 24 * 8)];
+
+    const candidates = selectSnapshotsToDelete(snapshots, { ...noLimits, retentionDays: 7 }, now);
+
+    assert.deepStrictEqual(
+      candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+      [['old', 'age']]
+    );
+  });
+
+  test('should keep the newest snapshot per period in each tier', () => {
+    const policy: RetentionPolicy = {
+      ...noLimits,
+      tiers: [
+        { olderThanHours: 24, keepOnePerHours: 1 },
+        { olderThanHours: 24 * 7, keepOnePerHours: 24 },
+      ],
+    };
+    // 2026-10-01T12:00Z から数えるので、時・日の区切りは UTC の正時・0 時
+    const snapshots = [
+      snapshotAt('fresh-1', 0.1),
+      snapshotAt('fresh-2', 0.2),
+      snapshotAt('hourly-newer', 30.1),
+      snapshotAt('hourly-older', 30.4),
+      snapshotAt('hourly-next', 31.5),
+      snapshotAt('daily-newer', 24 * 10 + 1),
+      snapshotAt('daily-older', 24 * 10 + 2),
+    ];
+
+    const candidates = selectSnapshotsToDelete(snapshots, policy, now);
+
+    assert.deepStrictEqual(candidates.map(({ snapshot }) => snapshot.id).sort(), ['daily-older', 'hourly-older']);
+    assert.ok(candidates.every(({ reason }) => reason === 'tier'));
+  });
+
+  test('should delete the oldest snapshots beyond the maximum count', () => {
+    const snapshots = [snapshotAt('a', 3), snapshotAt('b', 1), snapshotAt('c', 2), snapshotAt('d', 4)];
+
+    assert.deepStrictEqual(deletedIds(snapshots, { ...noLimits, maxCount: 2 }), ['a', 'd']);
+  });
+
+  test('should delete the oldest snapshots until the estimated size fits the limit', () => {
+    const snapshots = [snapshotAt('a', 1), snapshotAt('b', 2), snapshotAt('c', 3), snapshotAt('d', 4)];
+
+    // 1 件あたり 100 バイトと見積もられる
+    const candidates = selectSnapshotsToDelete(snapshots, { ...noLimits, maxSizeBytes: 250 }, now, 400);
+
+    assert.deepStrictEqual(
+      candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+      [
+        ['c', 'size'],
+        ['d', 'size'],
+      ]
+    );
+    assert.deepStrictEqual(deletedIds(snapshots, { ...noLimits, maxSizeBytes: 500 }, 400), []);
+  });
+
+  test('should keep the newest snapshot even when the estimated size can never fit the limit', () => {
+    const snapshots = [
+      snapshotAt('a', 1),
+      snapshotAt('b', 2),
+      snapshotAt('c', 3),
+      snapshotAt('favorite', 4, { isFavorite: true }),
+    ];
+
+    // お気に入りだけで上限を超えるため、見積もりどおりなら通常のスナップショットはすべて削除される
+    const candidates = selectSnapshotsToDelete(snapshots, { ...noLimits, maxSizeBytes: 100 }, now, 4000);
+
+    assert.deepStrictEqual(
+      candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+      [
+        ['b', 'size'],
+        ['c', 'size'],
+      ]
+    );
+  });
+
+  test('should never delete favorites or safety snapshots, nor count them against the limit', () => {
+    const snapshots = [
+      snapshotAt('favorite', 24 * 30, { isFavorite: true }),
+      snapshotAt('safety', 24 * 30, { isSafetySnapshot: true }),
+      snapshotAt('new', 1),
+      snapshotAt('old', 24 * 30),
+    ];
+
+    assert.deepStrictEqual(deletedIds(snapshots, { ...noLimits, retentionDays: 7 }), ['old']);
+    assert.deepStrictEqual(deletedIds(snapshots, { ...noLimits, maxCount: 1 }), ['old']);
+  });
+
+  test('should apply the first matching rule by source and branch instead of the retention period', () => {
+    const policy: RetentionPolicy = {
+      ...noLimits,
+      retentionDays: 30,
+      rules: [
+        { source: 'claude', retentionDays: 2 },
+        { branch: 'main', retentionDays: 90 },
+        { branch: 'feature/*', retentionDays: 14 },
+      ],
+    };
+    const snapshots = [
+      snapshotAt('claude-main', 24 * 3, { source: 'claude' }),
+      snapshotAt('main-60d', 24 * 60, { source: 'manual' }),
+      snapshotAt('main-100d', 24 * 100, { source: 'manual' }),
+      snapshotAt('feature-20d', 24 * 20, { branchName: 'feature/login', source: 'auto' }),
+      snapshotAt('nested-feature-20d', 24 * 20, { branchName: 'feature/login/api' }),
+      snapshotAt('other-40d', 24 * 40, { branchName: 'hotfix' }),
+    ];
+
+    const candidates = selectSnapshotsToDelete(snapshots, policy, now);
+
+    assert.deepStrictEqual(
+      candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+      [
+        ['claude-main', 'rule'],
+        ['feature-20d', 'rule'],
+        ['main-100d', 'rule'],
+        ['other-40d', 'age'],
+      ]
+    );
+  });
+
+  test('should keep snapshots matching a rule without a retention period', () => {
+    const policy: RetentionPolicy = { ...noLimits, retentionDays: 7, rules: [{ source: 'manual', retentionDays: 0 }] };
+    const snapshots = [snapshotAt('manual', 24 * 30, { source: 'manual' }), snapshotAt('opencode', 24 * 30, { source: 'opencode' })];
+
+    assert.deepStrictEqual(deletedIds(snapshots, policy), ['opencode']);
+  });
+
+  test('should match rules on whether the branch is merged', () => {
+    const policy: RetentionPolicy = { ...noLimits, rules: [{ merged: true, retentionDays: 3 }] };
+    const snapshots = [
+      snapshotAt('merged', 24 * 4, { branchName: 'feature/done' }),
+      snapshotAt('open', 24 * 4, { branchName: 'feature/wip' }),
+    ];
+
+    const candidates = selectSnapshotsToDelete(snapshots, policy, now, 0, new Set(['feature/done']));
+
+    assert.deepStrictEqual(candidates.map(({ snapshot }) => snapshot.id), ['merged']);
+  });
+
+  test('should match branch patterns with * inside one path segment and ** across segments', () => {
+    assert.strictEqual(matchesBranchPattern('feature/login', 'feature/*'), true);
+    assert.strictEqual(matchesBranchPattern('feature/login/api', 'feature/*'), false);
+    assert.strictEqual(matchesBranchPattern('feature/login/api', 'feature/**'), true);
+    assert.strictEqual(matchesBranchPattern('release-1.2', 'release-?.?'), true);
+    assert.strictEqual(matchesBranchPattern('release-1x2', 'release-1.2'), false);
+  });
+
+  test('should report each snapshot once, under the first rule that removed it', () => {
+    const snapshots = [snapshotAt('a', 1), snapshotAt('b', 2), snapshotAt('c', 24 * 10)];
+
+    const candidates = selectSnapshotsToDelete(snapshots, { ...noLimits, retentionDays: 7, maxCount: 1 }, now);
+
+    assert.deepStrictEqual(
+      candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+      [
+        ['c', 'age'],
+        ['b', 'count'],
+      ]
+    );
+  });
+});
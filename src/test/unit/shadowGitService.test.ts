@@ -4,7 +4,7 @@ import * as path from 'path';
 import * as os from 'os';
 import simpleGit from 'simple-git';
 import { ShadowGitService } from '../../services/shadowGitService';
-import { SHADOW_REPO_BASE_PATH } from '../../utils/constants';
+import { EMPTY_TREE_HASH, GUARD_REF, SHADOW_REPO_BASE_PATH } from '../../utils/constants';
 import { generateRepoIdentifier } from '../../utils/hashUtils';
 
 suite('ShadowGitService', () => {
@@ -151,6 +151,46 @@ suite('ShadowGitService', () => {
       assert.strictEqual(snapshots[0].description, customDescription);
       assert.ok(!snapshots[0].description.includes('Branch:'));
     });
+
+    test('should only save the selected paths in a scoped snapshot', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'modified content');
+      await fs.writeFile(path.join(workspaceDir, 'src', 'index.ts'), 'console.log("scoped")');
+      const snapshot = await shadowGitService.createSnapshot('main', undefined, undefined, undefined, ['src']);
+
+      assert.deepStrictEqual(snapshot.scope, ['src']);
+      const [latest] = await shadowGitService.listSnapshots();
+      assert.deepStrictEqual(latest.scope, ['src']);
+      assert.strictEqual(latest.branchName, 'main');
+
+      const files = await shadowGitService.getSnapshotFiles(snapshot.id);
+      assert.strictEqual(files.get('src/index.ts')?.toString(), 'console.log("scoped")');
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'content1');
+    });
+
+    test('should save unsaved editor contents without writing them to disk', async () => {
+      await fs.writeFile(path.join(workspaceDir, '.gitignore'), 'secret.txt\n');
+      await shadowGitService.createSnapshot('main');
+
+      const snapshot = await shadowGitService.createSnapshot('main', undefined, undefined, undefined, [], [
+        { file: 'file1.txt', content: Buffer.from('unsaved content') },
+        { file: 'src/draft.ts', content: Buffer.from('draft') },
+        { file: 'secret.txt', content: Buffer.from('ignored') },
+      ]);
+
+      assert.deepStrictEqual(snapshot.unsavedFiles, ['file1.txt', 'src/draft.ts']);
+      const [latest] = await shadowGitService.listSnapshots();
+      assert.deepStrictEqual(latest.unsavedFiles, ['file1.txt', 'src/draft.ts']);
+
+      const files = await shadowGitService.getSnapshotFiles(snapshot.id);
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'unsaved content');
+      assert.strictEqual(files.get('src/draft.ts')?.toString(), 'draft');
+      assert.strictEqual(files.has('secret.txt'), false);
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'content1');
+      assert.strictEqual(await fs.access(path.join(workspaceDir, 'src', 'draft.ts')).then(() => true, () => false), false);
+    });
   });
 
   suite('listSnapshots', () => {
@@ -200,6 +240,31 @@ suite('ShadowGitService', () => {
       assert.strictEqual(snapshots[0].isClaudeCreated, true);
     });
 
+    test('should strip [OpenCode] prefix from branch name and record the source', async () => {
+      await shadowGitService.createSnapshot('[OpenCode] main');
+
+      const snapshots = await shadowGitService.listSnapshots();
+
+      assert.strictEqual(snapshots[0].branchName, 'main');
+      assert.strictEqual(snapshots[0].source, 'opencode');
+      assert.strictEqual(snapshots[0].isClaudeCreated, false);
+    });
+
+    test('should derive the source of manual, Claude and automatic snapshots', async () => {
+      await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      await shadowGitService.createSnapshot('[Claude] main', undefined, undefined, 'Prompt');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      await shadowGitService.createSnapshot('main', undefined, undefined, undefined, [], [], 'idle');
+
+      const snapshots = await shadowGitService.listSnapshots();
+
+      assert.deepStrictEqual(
+        snapshots.map((s) => s.source),
+        ['auto', 'claude', 'manual']
+      );
+    });
+
     test('should not modify branch name without [Claude] prefix and set isClaudeCreated to false', async () => {
       await shadowGitService.createSnapshot('feature/normal-branch');
 
@@ -211,6 +276,71 @@ suite('ShadowGitService', () => {
     });
   });
 
+  suite('listSnapshotPage', () => {
+    const createSnapshots = async (count: number) => {
+      const snapshots = [];
+      for (let i = 1; i <= count; i++) {
+        await fs.writeFile(path.join(workspaceDir, 'file1.txt'), `content${i}`);
+        snapshots.push(await shadowGitService.createSnapshot(`branch${i}`));
+      }
+      return snapshots;
+    };
+
+    test('should return empty page when no snapshots exist', async () => {
+      const page = await shadowGitService.listSnapshotPage({ limit: 10 });
+
+      assert.deepStrictEqual(page, { snapshots: [], nextCursor: null });
+    });
+
+    test('should return snapshots page by page', async () => {
+      await createSnapshots(5);
+
+      const page1 = await shadowGitService.listSnapshotPage({ limit: 2 });
+      assert.deepStrictEqual(page1.snapshots.map((s) => s.branchName), ['branch5', 'branch4']);
+      assert.notStrictEqual(page1.nextCursor, null);
+
+      const page2 = await shadowGitService.listSnapshotPage({ limit: 2, cursor: page1.nextCursor! });
+      assert.deepStrictEqual(page2.snapshots.map((s) => s.branchName), ['branch3', 'branch2']);
+
+      const page3 = await shadowGitService.listSnapshotPage({ limit: 2, cursor: page2.nextCursor! });
+      assert.deepStrictEqual(page3.snapshots.map((s) => s.branchName), ['branch1']);
+      assert.strictEqual(page3.nextCursor, null);
+    });
+
+    test('should fill the page past deleted snapshots', async () => {
+      const snapshots = await createSnapshots(4);
+      await shadowGitService.deleteSnapshot(snapshots[3].id);
+      await shadowGitService.deleteSnapshot(snapshots[2].id);
+
+      const page = await shadowGitService.listSnapshotPage({ limit: 2 });
+
+      assert.deepStrictEqual(page.snapshots.map((s) => s.branchName), ['branch2', 'branch1']);
+      assert.strictEqual(page.nextCursor, null);
+    });
+
+    test('should show favorites at the top of the first page only', async () => {
+      const snapshots = await createSnapshots(4);
+      await shadowGitService.toggleFavorite(snapshots[0].id);
+
+      const page1 = await shadowGitService.listSnapshotPage({ limit: 2 });
+      assert.deepStrictEqual(page1.snapshots.map((s) => s.branchName), ['branch1', 'branch4', 'branch3']);
+      assert.strictEqual(page1.snapshots[0].isFavorite, true);
+
+      const page2 = await shadowGitService.listSnapshotPage({ limit: 2, cursor: page1.nextCursor! });
+      assert.deepStrictEqual(page2.snapshots.map((s) => s.branchName), ['branch2']);
+    });
+
+    test('should apply the filter before counting the page', async () => {
+      await createSnapshots(2);
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'claude');
+      await shadowGitService.createSnapshot('[Claude] main');
+
+      const page = await shadowGitService.listSnapshotPage({ limit: 2, filter: (s) => !s.isClaudeCreated });
+
+      assert.deepStrictEqual(page.snapshots.map((s) => s.branchName), ['branch2', 'branch1']);
+    });
+  });
+
   suite('getSnapshotFiles', () => {
     test('should return files from a specific snapshot', async () => {
       const snapshot = await shadowGitService.createSnapshot('main');
@@ -237,6 +367,116 @@ suite('ShadowGitService', () => {
 
       assert.strictEqual(snapshotFiles.get('file1.txt')?.toString(), 'content1');
     });
+
+    test('should keep file names that look like quoted paths as they are', async () => {
+      await fs.writeFile(path.join(workspaceDir, '"quoted".txt'), 'quoted');
+      await fs.writeFile(path.join(workspaceDir, 'back\\101slash.txt'), 'backslash');
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      const fileNames = await shadowGitService.getSnapshotFileNames(snapshot.id);
+      const snapshotFiles = await shadowGitService.getSnapshotFiles(snapshot.id);
+
+      assert.ok(fileNames.includes('"quoted".txt'));
+      assert.ok(fileNames.includes('back\\101slash.txt'));
+      assert.strictEqual(snapshotFiles.get('"quoted".txt')?.toString(), 'quoted');
+      assert.strictEqual(snapshotFiles.get('back\\101slash.txt')?.toString(), 'backslash');
+    });
+  });
+
+  suite('getSnapshotFileBuffer and restoreSnapshotFiles', () => {
+    const binaryContent = Buffer.from([0x00, 0xff, 0xfe, 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x80]);
+    const latin1Content = Buffer.from('café naïve', 'latin1');
+
+    setup(async () => {
+      await fs.writeFile(path.join(workspaceDir, 'image.bin'), binaryContent);
+      await fs.writeFile(path.join(workspaceDir, 'latin1.txt'), latin1Content);
+      await fs.writeFile(path.join(workspaceDir, 'empty.txt'), '');
+    });
+
+    test('should return file contents byte-for-byte', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      assert.deepStrictEqual(await shadowGitService.getSnapshotFileBuffer(snapshot.id, 'image.bin'), binaryContent);
+      assert.deepStrictEqual(await shadowGitService.getSnapshotFileBuffer(snapshot.id, 'latin1.txt'), latin1Content);
+      assert.strictEqual((await shadowGitService.getSnapshotFileBuffer(snapshot.id, 'empty.txt'))?.length, 0);
+    });
+
+    test('should return null for files missing from the snapshot', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      assert.strictEqual(await shadowGitService.getSnapshotFileBuffer(snapshot.id, 'missing.txt'), null);
+      assert.strictEqual(await shadowGitService.getSnapshotFileBuffer(snapshot.id, 'src'), null);
+    });
+
+    test('should read every file as missing from the empty tree', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      assert.strictEqual(await shadowGitService.getSnapshotFileBuffer(EMPTY_TREE_HASH, 'image.bin'), null);
+    });
+
+    test('should restore binary, non-UTF-8 and empty files exactly', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'image.bin'), 'changed');
+      await fs.writeFile(path.join(workspaceDir, 'latin1.txt'), 'changed');
+      await fs.writeFile(path.join(workspaceDir, 'empty.txt'), 'changed');
+
+      const restoredCount = await shadowGitService.restoreSnapshotFiles(snapshot.id, [
+        'image.bin',
+        'latin1.txt',
+        'empty.txt',
+        'missing.txt',
+      ]);
+
+      assert.strictEqual(restoredCount, 3);
+      assert.deepStrictEqual(await fs.readFile(path.join(workspaceDir, 'image.bin')), binaryContent);
+      assert.deepStrictEqual(await fs.readFile(path.join(workspaceDir, 'latin1.txt')), latin1Content);
+      assert.strictEqual((await fs.readFile(path.join(workspaceDir, 'empty.txt'))).length, 0);
+    });
+
+    test('should restore the executable bit recorded in the snapshot', async function () {
+      if (process.platform === 'win32') {
+        this.skip();
+      }
+      const scriptPath = path.join(workspaceDir, 'run.sh');
+      await fs.writeFile(scriptPath, '#!/bin/sh\necho hi\n');
+      await fs.chmod(scriptPath, 0o755);
+      await fs.chmod(path.join(workspaceDir, 'file1.txt'), 0o644);
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      await fs.rm(scriptPath);
+      await fs.chmod(path.join(workspaceDir, 'file1.txt'), 0o755);
+
+      await shadowGitService.restoreSnapshotFiles(snapshot.id, ['run.sh', 'file1.txt']);
+
+      assert.strictEqual((await fs.stat(scriptPath)).mode & 0o111, 0o111);
+      assert.strictEqual((await fs.stat(path.join(workspaceDir, 'file1.txt'))).mode & 0o111, 0);
+    });
+
+    test('should restore symlinks as symlinks without touching their target', async function () {
+      if (process.platform === 'win32') {
+        this.skip();
+      }
+      const linkPath = path.join(workspaceDir, 'link.txt');
+      await fs.symlink('file1.txt', linkPath);
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      // リンクを通常ファイルに置き換えてから復元する
+      await fs.unlink(linkPath);
+      await fs.writeFile(linkPath, 'not a link');
+      await shadowGitService.restoreSnapshotFiles(snapshot.id, ['link.txt']);
+
+      assert.ok((await fs.lstat(linkPath)).isSymbolicLink());
+      assert.strictEqual(await fs.readlink(linkPath), 'file1.txt');
+      assert.strictEqual(await fs.readFile(linkPath, 'utf-8'), 'content1');
+
+      await fs.unlink(linkPath);
+      await fs.symlink(path.join('src', 'index.ts'), linkPath);
+      await shadowGitService.restoreSnapshotFiles(snapshot.id, ['file1.txt', 'link.txt']);
+
+      assert.strictEqual(await fs.readlink(linkPath), 'file1.txt');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'index.ts'), 'utf-8'), 'console.log("hello")');
+    });
   });
 
   suite('deleteSnapshot', () => {
@@ -327,6 +567,132 @@ suite('ShadowGitService', () => {
     });
   });
 
+  suite('compareSnapshots', () => {
+    test('should list changes between two snapshots with line stats', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content1\nline2\n');
+      await fs.writeFile(path.join(workspaceDir, 'added.txt'), 'added\n');
+      await fs.rm(path.join(workspaceDir, 'src', 'index.ts'));
+      const snapshot2 = await shadowGitService.createSnapshot('main');
+
+      // ワークスペースの変更は比較結果に影響しない
+      await fs.writeFile(path.join(workspaceDir, 'unsaved.txt'), 'unsaved');
+
+      const diffFiles = await shadowGitService.compareSnapshots(snapshot1.id, snapshot2.id);
+      const byFile = new Map(diffFiles.map((diffFile) => [diffFile.file, diffFile]));
+
+      assert.strictEqual(diffFiles.length, 3);
+      assert.strictEqual(byFile.get('added.txt')?.status, 'added');
+      assert.strictEqual(byFile.get('added.txt')?.insertions, 1);
+      assert.strictEqual(byFile.get('src/index.ts')?.status, 'deleted');
+      assert.strictEqual(byFile.get('file1.txt')?.status, 'modified');
+      assert.strictEqual(byFile.get('file1.txt')?.insertions, 2);
+      assert.strictEqual(byFile.get('file1.txt')?.deletions, 1);
+    });
+
+    test('should compare a snapshot with the one before it', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'changed');
+      const snapshot2 = await shadowGitService.createSnapshot('main');
+
+      const previousId = await shadowGitService.getPreviousSnapshotId(snapshot2.id);
+      assert.ok(previousId.startsWith(snapshot1.id));
+
+      const diffFiles = await shadowGitService.compareSnapshots(previousId, snapshot2.id);
+      assert.deepStrictEqual(diffFiles.map((diffFile) => diffFile.file), ['file1.txt']);
+    });
+
+    test('should treat the first snapshot as adding every file', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      const previousId = await shadowGitService.getPreviousSnapshotId(snapshot.id);
+      const diffFiles = await shadowGitService.compareSnapshots(previousId, snapshot.id);
+
+      assert.ok(diffFiles.length > 0);
+      assert.ok(diffFiles.every((diffFile) => diffFile.status === 'added'));
+    });
+
+    test('should report a moved file as a single rename', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+      await fs.rename(path.join(workspaceDir, 'src', 'index.ts'), path.join(workspaceDir, 'src', 'main file.ts'));
+      const snapshot2 = await shadowGitService.createSnapshot('main');
+
+      const diffFiles = await shadowGitService.compareSnapshots(snapshot1.id, snapshot2.id);
+      assert.deepStrictEqual(diffFiles, [
+        { file: 'src/main file.ts', oldFile: 'src/index.ts', status: 'renamed', insertions: 0, deletions: 0 },
+      ]);
+
+      // ワークスペースとの比較でも、スナップショット側のパスを移動元として返す
+      const workspaceDiffFiles = await shadowGitService.getSnapshotDiffFiles(snapshot1.id);
+      assert.strictEqual(workspaceDiffFiles.length, 1);
+      assert.strictEqual(workspaceDiffFiles[0].oldFile, 'src/index.ts');
+    });
+
+    test('should move a renamed file back to its original path', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+      await fs.rename(path.join(workspaceDir, 'file1.txt'), path.join(workspaceDir, 'moved.txt'));
+
+      const restored = await shadowGitService.restoreRenamedFile(snapshot.id, 'file1.txt', 'moved.txt');
+
+      assert.strictEqual(restored, true);
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'content1');
+      await assert.rejects(fs.access(path.join(workspaceDir, 'moved.txt')));
+    });
+
+    test('should return no changes for identical snapshots', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      assert.deepStrictEqual(await shadowGitService.compareSnapshots(snapshot.id, snapshot.id), []);
+    });
+  });
+
+  suite('previewRestore', () => {
+    test('should list files that will be overwritten, created and deleted', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'modified');
+      await fs.rm(path.join(workspaceDir, 'src', 'index.ts'));
+      await fs.writeFile(path.join(workspaceDir, 'new.txt'), 'new file');
+
+      const preview = await shadowGitService.previewRestore(snapshot.id);
+
+      assert.deepStrictEqual(
+        [...preview].sort((a, b) => a.file.localeCompare(b.file)),
+        [
+          { file: 'file1.txt', change: 'overwrite' },
+          { file: 'new.txt', change: 'delete' },
+          { file: 'src/index.ts', change: 'create' },
+        ]
+      );
+    });
+
+    test('should return nothing when the workspace matches the snapshot', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      const preview = await shadowGitService.previewRestore(snapshot.id);
+
+      assert.deepStrictEqual(preview, []);
+    });
+
+    test('should not touch the workspace, the index or the history', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'new.txt'), 'new file');
+
+      await shadowGitService.previewRestore(snapshot.id);
+
+      const shadowGit = simpleGit(shadowGitService.shadowRepoPath);
+      const status = await shadowGit.status();
+      assert.deepStrictEqual(status.staged, []);
+      assert.ok(status.not_added.includes('new.txt'));
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'new.txt'), 'utf-8'), 'new file');
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 1);
+
+      const gitFiles = await fs.readdir(path.join(shadowGitService.shadowRepoPath, '.git'));
+      assert.ok(!gitFiles.some((file) => file.startsWith('index.preview')));
+    });
+  });
+
   suite('restoreSnapshot', () => {
     test('should restore workspace files to snapshot state', async () => {
       // スナップショット作成
@@ -359,6 +725,549 @@ suite('ShadowGitService', () => {
         .catch(() => false);
       assert.strictEqual(exists, false);
     });
+
+    test('should keep files outside the snapshot in overlay mode', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'modified content');
+      await fs.rm(path.join(workspaceDir, 'src', 'index.ts'));
+      await fs.writeFile(path.join(workspaceDir, 'newfile.txt'), 'new content');
+
+      await shadowGitService.restoreSnapshot(snapshot.id, 'overlay');
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'content1');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'index.ts'), 'utf-8'), 'console.log("hello")');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'newfile.txt'), 'utf-8'), 'new content');
+
+      // 記録される復元スナップショットは復元後のワークスペースそのもの
+      const [restored] = await shadowGitService.listSnapshots();
+      const files = await shadowGitService.getSnapshotFiles(restored.id);
+      assert.strictEqual(files.get('newfile.txt')?.toString(), 'new content');
+    });
+
+    test('should keep newer snapshots in history after restoring an older one', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot2 = await shadowGitService.createSnapshot('branch2');
+
+      await shadowGitService.restoreSnapshot(snapshot1.id);
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.ok(snapshots.some((s) => s.id === snapshot1.id));
+      assert.ok(snapshots.some((s) => s.id === snapshot2.id));
+
+      // 復元後も新しいスナップショットに戻れることを確認
+      await shadowGitService.restoreSnapshot(snapshot2.id);
+      const content = await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8');
+      assert.strictEqual(content, 'content2');
+    });
+
+    test('should record the restore as a new snapshot', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1', undefined, undefined, 'First');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      await shadowGitService.createSnapshot('branch2');
+
+      await shadowGitService.restoreSnapshot(snapshot1.id);
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 3);
+      assert.strictEqual(snapshots[0].description, 'Restore: First');
+      assert.strictEqual(snapshots[0].branchName, 'branch1');
+
+      const files = await shadowGitService.getSnapshotFiles(snapshots[0].id);
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'content1');
+    });
+
+    test('should not record a restore when the latest snapshot already matches', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+
+      await shadowGitService.restoreSnapshot(snapshot.id);
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 1);
+    });
+
+    test('should only touch the paths covered by a scoped snapshot', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main', undefined, undefined, 'Scoped', ['src']);
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'modified content');
+      await fs.writeFile(path.join(workspaceDir, 'src', 'index.ts'), 'console.log("changed")');
+      await fs.writeFile(path.join(workspaceDir, 'src', 'extra.ts'), 'extra');
+      await fs.writeFile(path.join(workspaceDir, 'newfile.txt'), 'new content');
+      await shadowGitService.createSnapshot('main', undefined, undefined, 'Later', ['src']);
+
+      const preview = await shadowGitService.previewRestore(snapshot.id, snapshot.scope);
+      assert.deepStrictEqual(preview.map((p) => p.file).sort(), ['src/extra.ts', 'src/index.ts']);
+
+      await shadowGitService.restoreSnapshot(snapshot.id);
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'index.ts'), 'utf-8'), 'console.log("hello")');
+      assert.strictEqual(await fs.access(path.join(workspaceDir, 'src', 'extra.ts')).then(() => true, () => false), false);
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'modified content');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'newfile.txt'), 'utf-8'), 'new content');
+
+      // 復元の記録も同じ範囲の部分スナップショットになる
+      const [restored] = await shadowGitService.listSnapshots();
+      assert.strictEqual(restored.description, 'Restore: Scoped');
+      assert.deepStrictEqual(restored.scope, ['src']);
+    });
+  });
+
+  suite('mergeFromSnapshot', () => {
+    const writeLines = (file: string, lines: string[]) =>
+      fs.writeFile(path.join(workspaceDir, file), lines.map((line) => `${line}\n`).join(''));
+    const readWorkspaceFile = (file: string) => fs.readFile(path.join(workspaceDir, file), 'utf-8');
+
+    test('should combine snapshot content with newer work', async () => {
+      await writeLines('merge.txt', ['a', 'b', 'c', 'd', 'e']);
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await writeLines('merge.txt', ['a', 'B', 'c', 'd', 'e']);
+      const latestSnapshot = await shadowGitService.createSnapshot('main');
+      await writeLines('merge.txt', ['a', 'B', 'c', 'd', 'E']);
+
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id, ['merge.txt']);
+
+      assert.ok(latestSnapshot.id.startsWith(result.baseId.substring(0, latestSnapshot.id.length)));
+      assert.deepStrictEqual(result.merged, ['merge.txt']);
+      assert.deepStrictEqual(result.conflicted, []);
+      assert.strictEqual(await readWorkspaceFile('merge.txt'), 'a\nb\nc\nd\nE\n');
+    });
+
+    test('should write conflict markers when both sides changed the same lines', async () => {
+      await writeLines('merge.txt', ['a', 'b', 'c']);
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await writeLines('merge.txt', ['a', 'B', 'c']);
+      await shadowGitService.createSnapshot('main');
+      await writeLines('merge.txt', ['a', 'BB', 'c']);
+
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id);
+
+      assert.deepStrictEqual(result.conflicted, ['merge.txt']);
+      const content = await readWorkspaceFile('merge.txt');
+      assert.ok(content.includes('<<<<<<< Current\nBB\n'));
+      assert.ok(content.includes('>>>>>>> Snapshot\n'));
+    });
+
+    test('should bring back files and keep new ones', async () => {
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await fs.rm(path.join(workspaceDir, 'file1.txt'));
+      await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'new.txt'), 'new work');
+
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id);
+
+      assert.deepStrictEqual(result.merged, ['file1.txt']);
+      assert.strictEqual(await readWorkspaceFile('file1.txt'), 'content1');
+      assert.strictEqual(await readWorkspaceFile('new.txt'), 'new work');
+    });
+
+    test('should not write through a symbolic link in the workspace', async () => {
+      await writeLines('link.txt', ['a', 'b']);
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await writeLines('link.txt', ['a', 'B']);
+      await shadowGitService.createSnapshot('main');
+      await writeLines('target.txt', ['x']);
+      await fs.rm(path.join(workspaceDir, 'link.txt'));
+      await fs.symlink('target.txt', path.join(workspaceDir, 'link.txt'));
+
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id, ['link.txt']);
+
+      assert.deepStrictEqual(result.skipped, ['link.txt']);
+      assert.strictEqual(await fs.readlink(path.join(workspaceDir, 'link.txt')), 'target.txt');
+      assert.strictEqual(await readWorkspaceFile('target.txt'), 'x\n');
+    });
+
+    test('should take the snapshot file mode when the current file kept the common one', async () => {
+      const scriptPath = path.join(workspaceDir, 'script.sh');
+      await writeLines('script.sh', ['a', 'b', 'c', 'd', 'e']);
+      await fs.chmod(scriptPath, 0o755);
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await writeLines('script.sh', ['a', 'B', 'c', 'd', 'e']);
+      await fs.chmod(scriptPath, 0o644);
+      await shadowGitService.createSnapshot('main');
+      await writeLines('script.sh', ['a', 'B', 'c', 'd', 'E']);
+
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id, ['script.sh']);
+
+      assert.deepStrictEqual(result.merged, ['script.sh']);
+      assert.strictEqual(await readWorkspaceFile('script.sh'), 'a\nb\nc\nd\nE\n');
+      assert.strictEqual((await fs.stat(scriptPath)).mode & 0o111, 0o111);
+    });
+
+    test('should report files deleted on one side and changed on the other as conflicts', async () => {
+      const oldSnapshot = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'changed');
+      await shadowGitService.createSnapshot('main');
+      await fs.rm(path.join(workspaceDir, 'file1.txt'));
+
+      // 祖先（2つ目のスナップショット）から見て、file1 は現在側で削除・スナップショット側で変更されている
+      const result = await shadowGitService.mergeFromSnapshot(oldSnapshot.id, ['file1.txt']);
+
+      assert.deepStrictEqual(result.deleteConflicted, ['file1.txt']);
+      assert.deepStrictEqual(result.merged, []);
+      await assert.rejects(fs.access(path.join(workspaceDir, 'file1.txt')));
+    });
+  });
+
+  suite('safety snapshots', () => {
+    test('should undo a full restore including unsaved work', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'unsaved work');
+      await fs.writeFile(path.join(workspaceDir, 'new.txt'), 'new file');
+
+      await shadowGitService.createSafetySnapshot('restore', [], 'main', 'Before restoring');
+      await shadowGitService.restoreSnapshot(snapshot.id);
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'content1');
+
+      const safety = await shadowGitService.getLatestSafetySnapshot();
+      assert.ok(safety);
+      assert.strictEqual(safety.action, 'restore');
+      assert.deepStrictEqual(safety.paths, []);
+      assert.strictEqual(safety.description, 'Before restoring');
+
+      await shadowGitService.undoSafetySnapshot(safety);
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'unsaved work');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'new.txt'), 'utf-8'), 'new file');
+      assert.strictEqual(await shadowGitService.getLatestSafetySnapshot(), null);
+    });
+
+    test('should only undo the paths affected by a file restore', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'before file restore');
+
+      await shadowGitService.createSafetySnapshot('restore-files', ['file1.txt'], 'main', 'Before restoring file1.txt');
+      await shadowGitService.restoreSnapshotFiles(snapshot.id, ['file1.txt']);
+      await fs.writeFile(path.join(workspaceDir, 'src', 'index.ts'), 'edited afterwards');
+
+      const safety = await shadowGitService.getLatestSafetySnapshot();
+      assert.ok(safety);
+      await shadowGitService.undoSafetySnapshot(safety);
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'file1.txt'), 'utf-8'), 'before file restore');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'index.ts'), 'utf-8'), 'edited afterwards');
+    });
+
+    test('should bring back a deleted folder', async () => {
+      await fs.writeFile(path.join(workspaceDir, 'src', 'util.ts'), 'export {};');
+      await shadowGitService.createSafetySnapshot('delete-files', ['src'], 'main', 'Before deleting src/');
+      await fs.rm(path.join(workspaceDir, 'src'), { recursive: true });
+
+      const safety = await shadowGitService.getLatestSafetySnapshot();
+      assert.ok(safety);
+      assert.deepStrictEqual(safety.paths, ['src']);
+      await shadowGitService.undoSafetySnapshot(safety);
+
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'index.ts'), 'utf-8'), 'console.log("hello")');
+      assert.strictEqual(await fs.readFile(path.join(workspaceDir, 'src', 'util.ts'), 'utf-8'), 'export {};');
+    });
+
+    test('should keep safety snapshots out of the snapshot and lost lists', async () => {
+      await shadowGitService.createSnapshot('main');
+      await shadowGitService.createSafetySnapshot('delete-files', ['file1.txt'], 'main', 'Before deleting file1.txt');
+
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 1);
+
+      // 取り消し後に参照が外れても復旧候補には出さない
+      const safety = await shadowGitService.getLatestSafetySnapshot();
+      assert.ok(safety);
+      await shadowGitService.undoSafetySnapshot(safety);
+      assert.deepStrictEqual(await shadowGitService.findLostSnapshots(), []);
+    });
+
+    test('should undo the most recent action first', async () => {
+      await shadowGitService.createSafetySnapshot('delete-files', ['file1.txt'], 'main', 'First');
+      await shadowGitService.createSafetySnapshot('delete-files', ['file1.txt'], 'main', 'Second');
+
+      const latest = await shadowGitService.getLatestSafetySnapshot();
+      assert.strictEqual(latest?.description, 'Second');
+      await shadowGitService.undoSafetySnapshot(latest);
+
+      assert.strictEqual((await shadowGitService.getLatestSafetySnapshot())?.description, 'First');
+    });
+  });
+
+  suite('guard snapshots', () => {
+    test('should record work that a Git operation discarded', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'uncommitted work');
+      await shadowGitService.updateGuardSnapshot('main');
+      // 破棄や stash で作業中の変更が消えた状態
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content1');
+
+      const snapshot = await shadowGitService.promoteGuardSnapshot('Before discarding changes on main', 'main', 'discard');
+
+      assert.ok(snapshot);
+      assert.strictEqual(snapshot.description, 'Before discarding changes on main');
+      assert.strictEqual(snapshot.trigger, 'git-operation');
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 2);
+      assert.strictEqual(snapshots[0].id, snapshot.id);
+      const files = await shadowGitService.getSnapshotFiles(snapshot.id);
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'uncommitted work');
+
+      // 次のスナップショットは操作後のワークスペースを記録する
+      const next = await shadowGitService.createSnapshot('main');
+      const nextFiles = await shadowGitService.getSnapshotFiles(next.id);
+      assert.strictEqual(nextFiles.get('file1.txt')?.toString(), 'content1');
+    });
+
+    test('should not record anything when the operation kept the work', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'uncommitted work');
+      await shadowGitService.updateGuardSnapshot('main');
+
+      const snapshot = await shadowGitService.promoteGuardSnapshot('Before HEAD change on main', 'main', 'head-change');
+
+      assert.strictEqual(snapshot, null);
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 1);
+    });
+
+    test('should park the outgoing branch work on checkout even when it was carried over', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'work on main');
+      await shadowGitService.updateGuardSnapshot('main');
+
+      const snapshot = await shadowGitService.promoteGuardSnapshot('Before checkout: main → feature', 'main', 'checkout');
+
+      assert.ok(snapshot);
+      assert.strictEqual(snapshot.branchName, 'main');
+      assert.strictEqual((await shadowGitService.getLatestSnapshotForBranch('main'))?.id, snapshot.id);
+    });
+
+    test('should keep replaced guard states out of the lost snapshots', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'first');
+      await shadowGitService.updateGuardSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'second');
+      await shadowGitService.updateGuardSnapshot('main');
+
+      assert.deepStrictEqual(await shadowGitService.findLostSnapshots(), []);
+    });
+
+    test('should not create a guard commit when the workspace did not change', async () => {
+      await shadowGitService.createSnapshot('main');
+      const shadowGit = simpleGit(path.join(SHADOW_REPO_BASE_PATH, repoIdentifier));
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'uncommitted work');
+      assert.strictEqual(await shadowGitService.updateGuardSnapshot('main'), true);
+      const guard = (await shadowGit.raw(['rev-parse', GUARD_REF])).trim();
+
+      assert.strictEqual(await shadowGitService.updateGuardSnapshot('main'), false);
+      assert.strictEqual((await shadowGit.raw(['rev-parse', GUARD_REF])).trim(), guard);
+    });
+  });
+
+  suite('getLatestSnapshotForBranch', () => {
+    test('should return the newest snapshot recorded for the branch', async () => {
+      await shadowGitService.createSnapshot('feature');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const latestMain = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      const latestFeature = await shadowGitService.createSnapshot('feature');
+
+      assert.strictEqual((await shadowGitService.getLatestSnapshotForBranch('main'))?.id, latestMain.id);
+      assert.strictEqual((await shadowGitService.getLatestSnapshotForBranch('feature'))?.id, latestFeature.id);
+      assert.strictEqual(await shadowGitService.getLatestSnapshotForBranch('other'), null);
+    });
+
+    test('should not prefer an older favorite', async () => {
+      const older = await shadowGitService.createSnapshot('main');
+      await shadowGitService.toggleFavorite(older.id);
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const newer = await shadowGitService.createSnapshot('main');
+
+      assert.strictEqual((await shadowGitService.getLatestSnapshotForBranch('main'))?.id, newer.id);
+    });
+  });
+
+  suite('findLostSnapshots and recoverSnapshots', () => {
+    test('should return empty array when no snapshots are lost', async () => {
+      await shadowGitService.createSnapshot('main');
+
+      const lostSnapshots = await shadowGitService.findLostSnapshots();
+
+      assert.deepStrictEqual(lostSnapshots, []);
+    });
+
+    test('should find snapshots orphaned by a hard reset', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot2 = await shadowGitService.createSnapshot('branch2', undefined, undefined, 'Lost work');
+
+      // 旧バージョンの復元処理を再現
+      await simpleGit(shadowGitService.shadowRepoPath).reset(['--hard', snapshot1.id]);
+
+      const lostSnapshots = await shadowGitService.findLostSnapshots();
+
+      assert.strictEqual(lostSnapshots.length, 1);
+      assert.strictEqual(lostSnapshots[0].id, snapshot2.id);
+      assert.strictEqual(lostSnapshots[0].description, 'Lost work');
+      assert.strictEqual(lostSnapshots[0].branchName, 'branch2');
+    });
+
+    test('should list recovered snapshots again', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot2 = await shadowGitService.createSnapshot('branch2');
+
+      await simpleGit(shadowGitService.shadowRepoPath).reset(['--hard', snapshot1.id]);
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 1);
+
+      await shadowGitService.recoverSnapshots([snapshot2.id]);
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 2);
+      assert.ok(snapshots.some((s) => s.id === snapshot2.id));
+
+      const lostSnapshots = await shadowGitService.findLostSnapshots();
+      assert.strictEqual(lostSnapshots.length, 0);
+    });
+  });
+
+  suite('compactStorage', () => {
+    test('should remove deleted snapshots from history', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot2 = await shadowGitService.createSnapshot('branch2');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      await shadowGitService.createSnapshot('branch3');
+
+      await shadowGitService.deleteSnapshot(snapshot2.id);
+
+      const result = await shadowGitService.compactStorage();
+
+      assert.strictEqual(result.removedCount, 1);
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 2);
+      assert.strictEqual(snapshots[0].branchName, 'branch3');
+      assert.strictEqual(snapshots[1].branchName, 'branch1');
+      // 削除より前のコミットはハッシュが変わらない
+      assert.strictEqual(snapshots[1].id, snapshot1.id);
+
+      const log = await simpleGit(shadowGitService.shadowRepoPath).raw(['rev-list', '--all']);
+      assert.strictEqual(log.trim().split('\n').length, 2);
+    });
+
+    test('should keep renamed and favorite snapshots consistent', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      await shadowGitService.createSnapshot('branch2');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      const snapshot3 = await shadowGitService.createSnapshot('branch3');
+
+      await shadowGitService.renameSnapshot(snapshot3.id, 'Renamed');
+      await shadowGitService.toggleFavorite(snapshot3.id);
+      await shadowGitService.deleteSnapshot(snapshot1.id);
+
+      await shadowGitService.compactStorage();
+
+      const snapshots = await shadowGitService.listSnapshots();
+      assert.strictEqual(snapshots.length, 2);
+      assert.strictEqual(snapshots[0].description, 'Renamed');
+      assert.strictEqual(snapshots[0].isFavorite, true);
+      assert.notStrictEqual(snapshots[0].id, snapshot3.id);
+
+      const files = await shadowGitService.getSnapshotFiles(snapshots[0].id);
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'content3');
+    });
+
+    test('should keep parents and recovered snapshots separate when rewriting history', async () => {
+      const snapshot0 = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'lost work');
+      const lost = await shadowGitService.createSnapshot('feature');
+
+      // 旧バージョンの復元処理を再現し、失われたスナップショットを復元する
+      const shadowGit = simpleGit(shadowGitService.shadowRepoPath);
+      await shadowGit.reset(['--hard', snapshot1.id]);
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      await shadowGitService.createSnapshot('main');
+      await shadowGitService.recoverSnapshots([lost.id]);
+
+      await shadowGitService.deleteSnapshot(snapshot1.id);
+      const result = await shadowGitService.compactStorage();
+
+      assert.strictEqual(result.removedCount, 1);
+      // 本線は作り直した最新のスナップショットとその祖先だけで、復元したスナップショットは混ざらない
+      const mainLine = (await shadowGit.raw(['rev-list', 'HEAD'])).trim().split('\n');
+      assert.strictEqual(mainLine.length, 2);
+      assert.strictEqual(mainLine[1].substring(0, 7), snapshot0.id);
+      assert.strictEqual((await shadowGitService.getPreviousSnapshotId(mainLine[0])).substring(0, 7), snapshot0.id);
+
+      const recoveredRefs = (await shadowGit.raw(['for-each-ref', '--format=%(objectname)', 'refs/recovered/']))
+        .trim()
+        .split('\n');
+      assert.strictEqual(recoveredRefs.length, 1);
+      assert.ok(!mainLine.includes(recoveredRefs[0]));
+      assert.strictEqual((await shadowGitService.getPreviousSnapshotId(recoveredRefs[0])).substring(0, 7), snapshot0.id);
+      const recoveredFiles = await shadowGitService.getSnapshotFiles(recoveredRefs[0].substring(0, 7));
+      assert.strictEqual(recoveredFiles.get('file1.txt')?.toString(), 'lost work');
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 3);
+    });
+
+    test('should keep lost snapshots recoverable unless asked to remove them', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'lost work');
+      const lost = await shadowGitService.createSnapshot('feature', undefined, undefined, 'Lost work');
+      await simpleGit(shadowGitService.shadowRepoPath).reset(['--hard', snapshot1.id]);
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      const deleted = await shadowGitService.createSnapshot('main');
+      await shadowGitService.deleteSnapshot(deleted.id);
+
+      await shadowGitService.compactStorage();
+
+      // 書き換えで reflog にだけ残った古いコミットは、失われたスナップショットとして扱わない
+      assert.deepStrictEqual(
+        (await shadowGitService.findLostSnapshots()).map((snapshot) => snapshot.id),
+        [lost.id]
+      );
+      await shadowGitService.recoverSnapshots([lost.id]);
+      const files = await shadowGitService.getSnapshotFiles(lost.id);
+      assert.strictEqual(files.get('file1.txt')?.toString(), 'lost work');
+      assert.deepStrictEqual(await shadowGitService.findLostSnapshots(), []);
+    });
+
+    test('should remove lost snapshots when asked to', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('main');
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'lost work');
+      await shadowGitService.createSnapshot('feature');
+      await simpleGit(shadowGitService.shadowRepoPath).reset(['--hard', snapshot1.id]);
+      await shadowGitService.compactStorage();
+      assert.strictEqual((await shadowGitService.findLostSnapshots()).length, 1);
+
+      await shadowGitService.compactStorage(true);
+
+      assert.deepStrictEqual(await shadowGitService.findLostSnapshots(), []);
+      const log = await simpleGit(shadowGitService.shadowRepoPath).raw(['rev-list', '--all']);
+      assert.strictEqual(log.trim().split('\n').length, 1);
+    });
+
+    test('should report storage size before and after compaction', async () => {
+      const snapshot = await shadowGitService.createSnapshot('main');
+      await shadowGitService.deleteSnapshot(snapshot.id);
+
+      const result = await shadowGitService.compactStorage();
+
+      assert.strictEqual(result.removedCount, 1);
+      assert.ok(result.sizeBefore > 0);
+      assert.ok(result.sizeAfter <= result.sizeBefore);
+      assert.deepStrictEqual(await shadowGitService.listSnapshots(), []);
+    });
   });
 
   suite('toggleFavorite', () => {
@@ -500,4 +1409,31 @@ suite('ShadowGitService', () => {
       assert.strictEqual(deletedCount, 3);
     });
   });
+
+  suite('planCleanup and applyCleanup', () => {
+    test('should preview the oldest snapshots beyond the limit and delete them only when applied', async () => {
+      const snapshot1 = await shadowGitService.createSnapshot('branch1');
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content2');
+      const snapshot2 = await shadowGitService.createSnapshot('branch2');
+      await shadowGitService.toggleFavorite(snapshot2.id);
+
+      await fs.writeFile(path.join(workspaceDir, 'file1.txt'), 'content3');
+      await shadowGitService.createSnapshot('branch3');
+
+      const candidates = await shadowGitService.planCleanup({ retentionDays: 0, rules: [], tiers: [], maxCount: 1, maxSizeBytes: 0 });
+
+      assert.deepStrictEqual(
+        candidates.map(({ snapshot, reason }) => [snapshot.id, reason]),
+        [[snapshot1.id, 'count']]
+      );
+      assert.strictEqual((await shadowGitService.listSnapshots()).length, 3);
+
+      const deletedCount = await shadowGitService.applyCleanup(candidates);
+
+      assert.strictEqual(deletedCount, 1);
+      const remaining = await shadowGitService.listSnapshots();
+      assert.deepStrictEqual(remaining.map((s) => s.branchName).sort(), ['branch2', 'branch3']);
+    });
+  });
 });
@@ -1,7 +1,11 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { SnapshotTreeItem, BranchTreeItem } from '../../views/snapshotTreeProvider';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotTreeItem, BranchTreeItem, RepositoryTreeItem } from '../../views/snapshotTreeProvider';
 import { SnapshotMetadata } from '../../types';
+import { ShadowGitService } from '../../services/shadowGitService';
+import { WorkspaceService } from '../../services/workspaceService';
 
 suite('SnapshotTreeProvider', () => {
   suite('SnapshotTreeItem', () => {
@@ -104,4 +108,42 @@ suite('SnapshotTreeProvider', () => {
       assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'question');
     });
   });
+
+  suite('RepositoryTreeItem', () => {
+    const gitRoot = os.tmpdir();
+    const createItem = (): RepositoryTreeItem =>
+      new RepositoryTreeItem({
+        name: path.basename(gitRoot),
+        gitRoot,
+        workspaceService: new WorkspaceService(gitRoot),
+        shadowGitService: new ShadowGitService(null, gitRoot),
+      });
+
+    test('should display repository name and path', () => {
+      const item = createItem();
+
+      assert.strictEqual(item.label, path.basename(gitRoot));
+      assert.strictEqual(item.description, gitRoot);
+    });
+
+    test('should be expanded with repository context', () => {
+      const item = createItem();
+
+      assert.strictEqual(item.collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+      assert.strictEqual(item.contextValue, 'repository');
+      assert.strictEqual(item.gitRoot, gitRoot);
+    });
+
+    test('should pass git root to child items', () => {
+      const snapshot: SnapshotMetadata = {
+        id: 'abc1234',
+        branchName: 'main',
+        timestamp: new Date('2024-01-15T10:30:00'),
+        description: 'Test snapshot description',
+      };
+      const item = new SnapshotTreeItem(snapshot, vscode.TreeItemCollapsibleState.Collapsed, gitRoot);
+
+      assert.strictEqual(item.gitRoot, gitRoot);
+    });
+  });
 });
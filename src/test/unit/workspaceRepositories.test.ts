@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ShadowGitService } from '../../services/shadowGitService';
+import { WorkspaceService } from '../../services/workspaceService';
+import { WorkspaceRepository, createShadowGitServices, findRepositoryForPath } from '../../utils/workspaceRepositories';
+import { generateRepoIdentifier } from '../../utils/hashUtils';
+
+suite('workspaceRepositories', () => {
+  suite('findRepositoryForPath', () => {
+    let tempDir: string;
+    let frontend: WorkspaceRepository;
+    let backend: WorkspaceRepository;
+    let nested: WorkspaceRepository;
+    let repositories: WorkspaceRepository[];
+
+    const createRepository = async (gitRoot: string): Promise<WorkspaceRepository> => {
+      await fs.mkdir(gitRoot, { recursive: true });
+      return {
+        name: path.basename(gitRoot),
+        gitRoot,
+        workspaceService: new WorkspaceService(gitRoot),
+        shadowGitService: new ShadowGitService(null, gitRoot),
+      };
+    };
+
+    setup(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-checkpoints-test-'));
+      frontend = await createRepository(path.join(tempDir, 'frontend'));
+      backend = await createRepository(path.join(tempDir, 'backend'));
+      nested = await createRepository(path.join(tempDir, 'frontend', 'packages', 'ui'));
+      repositories = [frontend, backend, nested];
+    });
+
+    teardown(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should find the repository containing the file', () => {
+      assert.strictEqual(findRepositoryForPath(repositories, path.join(tempDir, 'backend', 'src', 'index.ts')), backend);
+    });
+
+    test('should match the repository root itself', () => {
+      assert.strictEqual(findRepositoryForPath(repositories, path.join(tempDir, 'frontend')), frontend);
+    });
+
+    test('should prefer the innermost nested repository', () => {
+      assert.strictEqual(
+        findRepositoryForPath(repositories, path.join(tempDir, 'frontend', 'packages', 'ui', 'button.ts')),
+        nested
+      );
+      assert.strictEqual(
+        findRepositoryForPath(repositories, path.join(tempDir, 'frontend', 'packages', 'other.ts')),
+        frontend
+      );
+    });
+
+    test('should return undefined for paths outside every repository', () => {
+      assert.strictEqual(findRepositoryForPath(repositories, path.join(tempDir, 'frontend-old', 'file.ts')), undefined);
+      assert.strictEqual(findRepositoryForPath(repositories, path.join(tempDir, 'docs', 'README.md')), undefined);
+    });
+  });
+
+  suite('createShadowGitServices', () => {
+    let tempDir: string;
+    let remoteUrl: string;
+    let mainRoot: string;
+    let worktreeRoot: string;
+    let services: ShadowGitService[];
+
+    setup(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-checkpoints-test-'));
+      // テストごとに別のシャドウリポジトリになるよう、リモート URL に一時ディレクトリを含める
+      remoteUrl = `https://example.com/${path.basename(tempDir)}.git`;
+      mainRoot = path.join(tempDir, 'main');
+      worktreeRoot = path.join(tempDir, 'worktree');
+      await fs.mkdir(mainRoot, { recursive: true });
+      await fs.mkdir(worktreeRoot, { recursive: true });
+      services = [];
+    });
+
+    teardown(async () => {
+      for (const service of services) {
+        await fs.rm(service.shadowRepoPath, { recursive: true, force: true });
+      }
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should give roots sharing a remote their own shadow repositories', async () => {
+      services = await createShadowGitServices([
+        { gitRoot: mainRoot, remoteUrl },
+        { gitRoot: worktreeRoot, remoteUrl },
+      ]);
+
+      assert.strictEqual(services[0].repoIdentifier, generateRepoIdentifier(remoteUrl, mainRoot));
+      assert.strictEqual(services[1].repoIdentifier, generateRepoIdentifier(null, worktreeRoot));
+      assert.notStrictEqual(services[0].shadowRepoPath, services[1].shadowRepoPath);
+    });
+
+    test('should keep the remote identifier for the root the existing shadow repository belongs to', async () => {
+      const existing = new ShadowGitService(remoteUrl, worktreeRoot);
+      services.push(existing);
+      await existing.initializeIfNeeded();
+
+      services.push(
+        ...(await createShadowGitServices([
+          { gitRoot: mainRoot, remoteUrl },
+          { gitRoot: worktreeRoot, remoteUrl },
+        ]))
+      );
+
+      assert.strictEqual(services[1].repoIdentifier, generateRepoIdentifier(null, mainRoot));
+      assert.strictEqual(services[2].shadowRepoPath, existing.shadowRepoPath);
+      assert.strictEqual(await services[2].getRecordedWorktree(), worktreeRoot);
+    });
+
+    test('should keep the remote identifier for a single root', async () => {
+      services = await createShadowGitServices([{ gitRoot: mainRoot, remoteUrl }]);
+
+      assert.strictEqual(services[0].repoIdentifier, generateRepoIdentifier(remoteUrl, mainRoot));
+    });
+  });
+});
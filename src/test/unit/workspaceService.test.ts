@@ -134,4 +134,35 @@ suite('WorkspaceService', () => {
     });
   });
 
+  suite('getMergedBranches', () => {
+    test('should list branches merged into the default branch, excluding it', async () => {
+      await fs.writeFile(path.join(workspaceDir, 'file.txt'), 'content');
+      const git = simpleGit(workspaceDir);
+      await git.add('.');
+      await git.commit('initial commit');
+      await git.raw(['branch', '-M', 'main']);
+
+      await git.checkoutLocalBranch('feature/done');
+      await fs.writeFile(path.join(workspaceDir, 'done.txt'), 'done');
+      await git.add('.');
+      await git.commit('done');
+      await git.checkout('main');
+      await git.merge(['feature/done']);
+
+      await git.checkoutLocalBranch('feature/wip');
+      await fs.writeFile(path.join(workspaceDir, 'wip.txt'), 'wip');
+      await git.add('.');
+      await git.commit('wip');
+
+      const merged = await workspaceService.getMergedBranches();
+
+      assert.deepStrictEqual(merged, ['feature/done']);
+    });
+
+    test('should return an empty list without a default branch', async () => {
+      const merged = await workspaceService.getMergedBranches();
+
+      assert.deepStrictEqual(merged, []);
+    });
+  });
 });
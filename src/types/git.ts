@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+
+// VS Code 組み込みの Git 拡張機能（vscode.git）の API のうち、この拡張機能で使う部分だけを定義する
+// 完全な定義は vscode リポジトリの extensions/git/src/api/git.d.ts を参照
+
+export interface GitBranch {
+  readonly name?: string;
+  readonly commit?: string;
+}
+
+export interface GitRepositoryState {
+  readonly HEAD: GitBranch | undefined;
+  readonly indexChanges: readonly unknown[];
+  readonly workingTreeChanges: readonly unknown[];
+  readonly mergeChanges: readonly unknown[];
+  readonly onDidChange: vscode.Event<void>;
+}
+
+export interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: GitRepositoryState;
+}
+
+export interface GitAPI {
+  readonly repositories: GitRepository[];
+  readonly onDidOpenRepository: vscode.Event<GitRepository>;
+}
+
+export interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
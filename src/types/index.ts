@@ -6,6 +6,65 @@ export interface SnapshotMetadata {
   fullMessage?: string;
   isClaudeCreated?: boolean;
   isFavorite?: boolean;
+  tags?: string[];
+  note?: string;
+  isSafetySnapshot?: boolean;
+  // 部分スナップショットが対象とするパス（無い場合はワークスペース全体）
+  scope?: string[];
+  // ディスクではなくエディタの未保存の内容を保存したファイル
+  unsavedFiles?: string[];
+  // 自動スナップショットの場合、作成のきっかけになったトリガー
+  trigger?: SnapshotTrigger;
+  // コミットメッセージから判別した作成元
+  source?: SnapshotSource;
+}
+
+// スナップショットの作成元（手動、Claude フック、OpenCode プラグイン、自動トリガー）
+export type SnapshotSource = 'manual' | 'claude' | 'opencode' | 'auto';
+
+// 拡張機能が自動でスナップショットを作成するきっかけ
+export type SnapshotTrigger = 'interval' | 'save-count' | 'idle' | 'focus-lost' | 'git-operation';
+
+// 作業中の変更を失う可能性のある本体リポジトリの Git 操作
+// checkout: ブランチの切り替え、head-change: 同じブランチでの pull・rebase・reset など、discard: 破棄や stash
+export type GitOperation = 'checkout' | 'head-change' | 'discard';
+
+// エディタで編集中の未保存の内容（file はワークスペースのルートからの相対パス）
+export interface UnsavedFile {
+  file: string;
+  content: Buffer;
+}
+
+// 未保存のファイルの収集結果（skipped はエンコーディングを扱えず含められなかったファイル）
+export interface UnsavedFileCollection {
+  files: UnsavedFile[];
+  skipped: string[];
+}
+
+// メタデータストアに保存するスナップショットごとの情報（未知のフィールドも保持する）
+export interface SnapshotRecord {
+  name?: string;
+  favorite?: boolean;
+  deleted?: boolean;
+  tags?: string[];
+  note?: string;
+  [key: string]: unknown;
+}
+
+export interface MetadataStoreData {
+  version: number;
+  snapshots: Record<string, SnapshotRecord>;
+}
+
+export interface ListSnapshotPageOptions {
+  limit: number;
+  cursor?: number;
+  filter?: (snapshot: SnapshotMetadata) => boolean;
+}
+
+export interface SnapshotPage {
+  snapshots: SnapshotMetadata[];
+  nextCursor: number | null;
 }
 
 export interface ShadowRepoConfig {
@@ -14,11 +73,114 @@ export interface ShadowRepoConfig {
   shadowRepoPath: string;
 }
 
-export type DiffFileStatus = 'added' | 'modified' | 'deleted';
+export type DiffFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
 
 export interface DiffFileInfo {
   file: string;
+  // renamed の場合の移動元のパス（file は移動先）
+  oldFile?: string;
   status: DiffFileStatus;
   insertions: number;
   deletions: number;
 }
+
+// 現在のファイルとスナップショットの間で内容が異なる連続した行（行番号は0始まり、End は含まない）
+export interface DiffHunk {
+  currentStart: number;
+  currentEnd: number;
+  snapshotStart: number;
+  snapshotEnd: number;
+  currentLines: string[];
+  snapshotLines: string[];
+}
+
+// スナップショットからのマージ結果（パスはワークスペースのルートからの相対パス）
+export interface SnapshotMergeResult {
+  // 共通の祖先として使ったスナップショット
+  baseId: string;
+  merged: string[];
+  // 競合マーカー付きで書き込んだファイル
+  conflicted: string[];
+  // バイナリや両方で変更されたシンボリックリンクなど、マージできず現在の内容のまま残したファイル
+  skipped: string[];
+  // 一方で削除され、もう一方で変更されたファイル（現在の状態のまま残す）
+  deleteConflicted: string[];
+}
+
+// 文字オフセットで表した置換（end は含まない）
+export interface TextReplacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// olderThanHours 時間より古いスナップショットは、keepOnePerHours 時間ごとに最新の1件だけを残す
+export interface RetentionTier {
+  olderThanHours: number;
+  keepOnePerHours: number;
+}
+
+// 作成元やブランチごとの保持期間（指定した条件をすべて満たす最初の規則を使い、0 は期限なし）
+export interface RetentionRule {
+  source?: SnapshotSource;
+  // ブランチ名の glob パターン（* は / を含まない）
+  branch?: string;
+  // 既定のブランチに統合済みかどうか
+  merged?: boolean;
+  retentionDays: number;
+}
+
+// 自動クリーンアップの保持ポリシー（0 や空の項目は無効）
+export interface RetentionPolicy {
+  retentionDays: number;
+  rules: RetentionRule[];
+  tiers: RetentionTier[];
+  maxCount: number;
+  maxSizeBytes: number;
+}
+
+export type RetentionReason = 'age' | 'rule' | 'tier' | 'count' | 'size';
+
+// 保持ポリシーによって削除されるスナップショットと、その理由
+export interface RetentionCandidate {
+  snapshot: SnapshotMetadata;
+  reason: RetentionReason;
+}
+
+export interface CompactStorageResult {
+  removedCount: number;
+  sizeBefore: number;
+  sizeAfter: number;
+}
+
+export interface RepoLockOwner {
+  pid: number;
+  host: string;
+  client: string;
+  createdAt: Date;
+}
+
+// exact: スナップショットと完全に一致させる（後から作られたファイルは削除）
+// overlay: スナップショットのファイルだけを上書きし、それ以外のファイルは残す
+export type RestoreMode = 'exact' | 'overlay';
+
+// 復元時にワークスペースのファイルがどうなるか
+export type RestoreChange = 'overwrite' | 'create' | 'delete';
+
+export interface RestorePreviewFile {
+  file: string;
+  change: RestoreChange;
+}
+
+// 安全用スナップショットを作成した操作
+export type SafetyAction = 'restore' | 'restore-files' | 'delete-files';
+
+export interface SafetySnapshot {
+  id: string;
+  ref: string;
+  action: SafetyAction;
+  // 操作の対象パス（空の場合はワークスペース全体）
+  paths: string[];
+  description: string;
+  timestamp: Date;
+}
@@ -3,3 +3,26 @@ import * as path from 'path';
 
 export const SHADOW_REPO_BASE_PATH = path.join(os.homedir(), '.work-checkpoints');
 export const SNAPSHOT_BRANCH_NAME = 'main';
+export const RECOVERED_REF_PREFIX = 'refs/recovered/';
+// 圧縮で reflog を消すときに、まだ復旧されていない失われたスナップショットを残しておく ref
+export const LOST_REF_PREFIX = 'refs/lost/';
+export const SNAPSHOT_PAGE_SIZE = 50;
+// 親を持たないスナップショットの比較元として使う空のツリー
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// シャドウリポジトリ単位のアドバイザリロック（拡張機能・Claude フック・OpenCode プラグインで共通）
+export const REPO_LOCK_DIR_NAME = '.lock';
+export const REPO_LOCK_OWNER_FILE_NAME = 'owner';
+// 別ホストが保持するロックを古いとみなすまでの時間（同じホストでは PID の生存だけで判断する）
+export const REPO_LOCK_STALE_MS = 10 * 60 * 1000;
+export const REPO_LOCK_TIMEOUT_MS = 30000;
+
+// 復元・削除の直前に自動で作成する安全用スナップショット（通常の一覧には表示しない）
+export const SAFETY_REF_PREFIX = 'refs/safety/';
+export const SAFETY_SNAPSHOT_LIMIT = 20;
+
+// Git 操作で失われる前の作業状態（最新の1つだけを保持し、Git 操作を検知したらスナップショットにする）
+export const GUARD_REF = 'refs/guard/workspace';
+// 保存のたびに更新しないよう、変更が落ち着いてから更新する
+// この間に Git 操作が行われると、直前の保存はスナップショットに入らない
+export const GUARD_UPDATE_DELAY_MS = 2000;
@@ -0,0 +1,176 @@
+import { DiffHunk, TextReplacement } from '../types';
+
+// 改行文字を行末に残したまま行に分割する（結合すると元のテキストに戻る）
+export const splitLines = (text: string): string[] => {
+  return text.match(/[^\r\n]*(?:\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+};
+
+// Myers の差分アルゴリズムで、両方に共通する行の組 [a の行, b の行] を先頭から順に返す
+const findCommonLines = (a: string[], b: string[]): [number, number][] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // 各ステップ開始時点の v のうち、そのステップで参照する k = -d-1 .. d+1 の範囲だけを保存する
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const common: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const saved = trace[d];
+    const at = (k: number) => saved[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      common.push([x - 1, y - 1]);
+      x--;
+      y--;
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return common.reverse();
+};
+
+// 現在の行とスナップショットの行を比較し、異なる部分をハンクとして返す
+export const computeHunks = (currentLines: string[], snapshotLines: string[]): DiffHunk[] => {
+  // 共通の先頭・末尾は差分計算の対象から外す
+  let prefix = 0;
+  while (
+    prefix < currentLines.length &&
+    prefix < snapshotLines.length &&
+    currentLines[prefix] === snapshotLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < currentLines.length - prefix &&
+    suffix < snapshotLines.length - prefix &&
+    currentLines[currentLines.length - 1 - suffix] === snapshotLines[snapshotLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const common = findCommonLines(
+    currentLines.slice(prefix, currentLines.length - suffix),
+    snapshotLines.slice(prefix, snapshotLines.length - suffix)
+  ).map(([a, b]): [number, number] => [a + prefix, b + prefix]);
+  common.push([currentLines.length - suffix, snapshotLines.length - suffix]);
+
+  const hunks: DiffHunk[] = [];
+  let currentStart = prefix;
+  let snapshotStart = prefix;
+  for (const [currentIndex, snapshotIndex] of common) {
+    if (currentIndex > currentStart || snapshotIndex > snapshotStart) {
+      hunks.push({
+        currentStart,
+        currentEnd: currentIndex,
+        snapshotStart,
+        snapshotEnd: snapshotIndex,
+        currentLines: currentLines.slice(currentStart, currentIndex),
+        snapshotLines: snapshotLines.slice(snapshotStart, snapshotIndex),
+      });
+    }
+    currentStart = currentIndex + 1;
+    snapshotStart = snapshotIndex + 1;
+  }
+
+  return hunks;
+};
+
+// 現在のファイルの行範囲（0始まり、両端を含む）に掛かるハンク
+// 現在のファイルに行が無いハンク（スナップショットにだけある行）は、挿入位置が範囲内か直後なら対象にする
+export const findHunksInRange = (hunks: DiffHunk[], startLine: number, endLine: number): DiffHunk[] => {
+  return hunks.filter((hunk) =>
+    hunk.currentStart === hunk.currentEnd
+      ? hunk.currentStart >= startLine && hunk.currentStart <= endLine + 1
+      : hunk.currentStart <= endLine && hunk.currentEnd > startLine
+  );
+};
+
+// ハンクのうち、現在のファイルの行範囲（0始まり、両端を含む）に掛かる部分だけを切り出す
+// ハンク内の行は先頭から順に対応付け、範囲がハンクの最終行まで及ぶ場合は、スナップショット側の残りの行も含める
+const clipHunk = (hunk: DiffHunk, startLine: number, endLine: number): DiffHunk => {
+  const currentCount = hunk.currentLines.length;
+  const snapshotCount = hunk.snapshotLines.length;
+  if (currentCount === 0) {
+    return hunk;
+  }
+
+  const from = Math.max(startLine - hunk.currentStart, 0);
+  const to = Math.min(endLine + 1 - hunk.currentStart, currentCount);
+  const snapshotFrom = Math.min(from, snapshotCount);
+  const snapshotTo = to === currentCount ? snapshotCount : Math.min(to, snapshotCount);
+
+  const snapshotLines = hunk.snapshotLines.slice(snapshotFrom, snapshotTo);
+  // 改行の無いスナップショットの最終行を途中に置く場合は、置き換える行の改行を引き継ぐ
+  const lastIndex = snapshotLines.length - 1;
+  if (to < currentCount && lastIndex >= 0 && !/[\r\n]$/.test(snapshotLines[lastIndex])) {
+    snapshotLines[lastIndex] += hunk.currentLines[to - 1].match(/(?:\r\n|\r|\n)$/)?.[0] ?? '';
+  }
+
+  return {
+    currentStart: hunk.currentStart + from,
+    currentEnd: hunk.currentStart + to,
+    snapshotStart: hunk.snapshotStart + snapshotFrom,
+    snapshotEnd: hunk.snapshotStart + snapshotTo,
+    currentLines: hunk.currentLines.slice(from, to),
+    snapshotLines,
+  };
+};
+
+// 現在のファイルの行範囲に掛かるハンクを、範囲内の行だけに切り詰めて返す
+export const clipHunksToRange = (hunks: DiffHunk[], startLine: number, endLine: number): DiffHunk[] => {
+  return findHunksInRange(hunks, startLine, endLine).map((hunk) => clipHunk(hunk, startLine, endLine));
+};
+
+// 選んだハンクをスナップショットの内容に戻すための置換（現在のテキストでの文字オフセット）
+export const toReplacements = (currentLines: string[], hunks: DiffHunk[]): TextReplacement[] => {
+  const lineOffsets = [0];
+  for (const line of currentLines) {
+    lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length);
+  }
+
+  return [...hunks]
+    .sort((a, b) => a.currentStart - b.currentStart)
+    .map((hunk) => ({
+      start: lineOffsets[hunk.currentStart],
+      end: lineOffsets[hunk.currentEnd],
+      text: hunk.snapshotLines.join(''),
+    }));
+};
+
+// 置換をまとめて適用する（重ならない置換を前提とする）
+export const applyReplacements = (text: string, replacements: TextReplacement[]): string => {
+  let result = '';
+  let position = 0;
+  for (const replacement of [...replacements].sort((a, b) => a.start - b.start)) {
+    result += text.slice(position, replacement.start) + replacement.text;
+    position = replacement.end;
+  }
+  return result + text.slice(position);
+};
@@ -0,0 +1,209 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RepoLockOwner } from '../types';
+import {
+  REPO_LOCK_DIR_NAME,
+  REPO_LOCK_OWNER_FILE_NAME,
+  REPO_LOCK_STALE_MS,
+  REPO_LOCK_TIMEOUT_MS,
+} from './constants';
+
+// ロック取得直後（owner 書き込み前）のディレクトリを古いと判定しないための猶予
+const OWNER_WRITE_GRACE_MS = 5000;
+const RETRY_INTERVAL_MS = 100;
+
+// 現在の非同期コンテキストが保持しているロック（同じプロセス内での再入を許可する）
+const heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+const getLockDir = (shadowRepoPath: string): string => path.join(shadowRepoPath, REPO_LOCK_DIR_NAME);
+
+// owner ファイルはシェルからも読めるよう "key=value" の行形式（created は UNIX 秒）
+const formatOwner = (owner: RepoLockOwner): string =>
+  [
+    `pid=${owner.pid}`,
+    `host=${owner.host}`,
+    `client=${owner.client}`,
+    `created=${Math.floor(owner.createdAt.getTime() / 1000)}`,
+  ].join('\n') + '\n';
+
+const readOwnerFile = async (lockDir: string): Promise<RepoLockOwner | null> => {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(lockDir, REPO_LOCK_OWNER_FILE_NAME), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of content.split('\n')) {
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex > 0) {
+      fields.set(line.substring(0, separatorIndex), line.substring(separatorIndex + 1).trim());
+    }
+  }
+
+  const pid = parseInt(fields.get('pid') ?? '', 10);
+  const created = parseInt(fields.get('created') ?? '', 10);
+  if (isNaN(pid) || isNaN(created)) {
+    return null;
+  }
+
+  return {
+    pid,
+    host: fields.get('host') ?? '',
+    client: fields.get('client') ?? 'unknown',
+    createdAt: new Date(created * 1000),
+  };
+};
+
+export const readRepoLockOwner = async (shadowRepoPath: string): Promise<RepoLockOwner | null> => {
+  return await readOwnerFile(getLockDir(shadowRepoPath));
+};
+
+const isSameOwner = (a: RepoLockOwner | null, b: RepoLockOwner | null): boolean => {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.pid === b.pid && a.host === b.host && a.client === b.client && a.createdAt.getTime() === b.createdAt.getTime();
+};
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM は別ユーザーのプロセスが生きていることを意味する
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// 古いと判定したロック（owner が未書き込みのロックも区別できるよう、ディレクトリの inode も持つ）
+interface StaleLock {
+  owner: RepoLockOwner | null;
+  inode: number;
+}
+
+const findStaleLock = async (shadowRepoPath: string): Promise<StaleLock | null> => {
+  let stat: Stats;
+  try {
+    stat = await fs.stat(getLockDir(shadowRepoPath));
+  } catch {
+    // 既に解放されている
+    return null;
+  }
+
+  const owner = await readRepoLockOwner(shadowRepoPath);
+  const stale = { owner, inode: stat.ino };
+  if (!owner) {
+    return Date.now() - stat.mtimeMs > OWNER_WRITE_GRACE_MS ? stale : null;
+  }
+
+  // 同じホストなら PID の生存だけで判断する（長い圧縮や復元の途中で奪わないよう、経過時間は見ない）
+  // 別ホスト（共有ホームなど）は生存確認できないため経過時間で判断する
+  if (owner.host === os.hostname()) {
+    return isProcessAlive(owner.pid) ? null : stale;
+  }
+  return Date.now() - owner.createdAt.getTime() > REPO_LOCK_STALE_MS ? stale : null;
+};
+
+// 古いと判定してからリネームするまでの間に、別のクライアントが古いロックを消して新しく取得している可能性がある
+// リネームしたディレクトリが判定したロックと同じ場合だけ削除し、違う場合は元に戻す
+const removeStaleLock = async (shadowRepoPath: string, stale: StaleLock): Promise<void> => {
+  const lockDir = getLockDir(shadowRepoPath);
+  const staleDir = `${lockDir}.stale-${process.pid}-${Date.now()}`;
+  try {
+    await fs.rename(lockDir, staleDir);
+  } catch {
+    return;
+  }
+
+  const renamedInode = (await fs.stat(staleDir)).ino;
+  if (renamedInode === stale.inode && isSameOwner(await readOwnerFile(staleDir), stale.owner)) {
+    await fs.rm(staleDir, { recursive: true, force: true });
+    return;
+  }
+
+  try {
+    await fs.rename(staleDir, lockDir);
+  } catch {
+    // 既に別のクライアントが新しいロックを取得しているので、奪ってしまったロックは戻せない
+    await fs.rm(staleDir, { recursive: true, force: true });
+  }
+};
+
+const acquire = async (shadowRepoPath: string, timeoutMs: number): Promise<RepoLockOwner> => {
+  const lockDir = getLockDir(shadowRepoPath);
+  await fs.mkdir(shadowRepoPath, { recursive: true });
+
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      // mkdir はアトミックなので、成功したクライアントだけがロックを保持する
+      await fs.mkdir(lockDir);
+      const owner: RepoLockOwner = {
+        pid: process.pid,
+        host: os.hostname(),
+        client: 'vscode',
+        createdAt: new Date(),
+      };
+      await fs.writeFile(path.join(lockDir, REPO_LOCK_OWNER_FILE_NAME), formatOwner(owner), 'utf-8');
+      return owner;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const stale = await findStaleLock(shadowRepoPath);
+    if (stale) {
+      await removeStaleLock(shadowRepoPath, stale);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      const owner = await readRepoLockOwner(shadowRepoPath);
+      const holder = owner ? `${owner.client} (pid ${owner.pid})` : 'another client';
+      throw new Error(`Snapshot repository is locked by ${holder}. Please try again.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_INTERVAL_MS));
+  }
+};
+
+const release = async (shadowRepoPath: string, owner: RepoLockOwner): Promise<void> => {
+  // 古いと判定されて他のクライアントに奪われていた場合は、そのロックを消さない
+  const current = await readRepoLockOwner(shadowRepoPath);
+  if (
+    current &&
+    current.pid === owner.pid &&
+    current.host === owner.host &&
+    current.createdAt.getTime() === Math.floor(owner.createdAt.getTime() / 1000) * 1000
+  ) {
+    await fs.rm(getLockDir(shadowRepoPath), { recursive: true, force: true });
+  }
+};
+
+export const isRepoLockHeld = (shadowRepoPath: string): boolean => {
+  return heldLocks.getStore()?.has(shadowRepoPath) ?? false;
+};
+
+export const withRepoLock = async <T>(
+  shadowRepoPath: string,
+  operation: () => Promise<T>,
+  timeoutMs: number = REPO_LOCK_TIMEOUT_MS
+): Promise<T> => {
+  if (isRepoLockHeld(shadowRepoPath)) {
+    return await operation();
+  }
+
+  const owner = await acquire(shadowRepoPath, timeoutMs);
+  try {
+    const held = new Set(heldLocks.getStore() ?? []);
+    held.add(shadowRepoPath);
+    return await heldLocks.run(held, operation);
+  } finally {
+    await release(shadowRepoPath, owner);
+  }
+};
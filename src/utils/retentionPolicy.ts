@@ -0,0 +1,117 @@
+import { RetentionCandidate, RetentionPolicy, RetentionReason, RetentionRule, SnapshotMetadata } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ブランチ名の glob（** は任意の文字列、* は / 以外の文字列、? は / 以外の 1 文字）
+export const matchesBranchPattern = (branchName: string, pattern: string): boolean => {
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**') {
+        return '.*';
+      }
+      if (part === '*') {
+        return '[^/]*';
+      }
+      if (part === '?') {
+        return '[^/]';
+      }
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(branchName);
+};
+
+const matchesRule = (rule: RetentionRule, snapshot: SnapshotMetadata, mergedBranches: ReadonlySet<string>): boolean =>
+  (rule.source === undefined || rule.source === (snapshot.source ?? 'manual')) &&
+  (rule.branch === undefined || matchesBranchPattern(snapshot.branchName, rule.branch)) &&
+  (rule.merged === undefined || rule.merged === mergedBranches.has(snapshot.branchName));
+
+// 保持ポリシーに従って削除するスナップショットを選ぶ（お気に入りと安全用スナップショットは対象外で、件数にも数えない）
+// 期間 → 段階的な間引き → 最大件数 → 最大サイズの順に適用し、残すのは常に新しい方
+// 作成元やブランチの規則に一致したスナップショットは、全体の保持期間の代わりに規則の期間を使う
+export const selectSnapshotsToDelete = (
+  snapshots: SnapshotMetadata[],
+  policy: RetentionPolicy,
+  now: Date,
+  storageSize: number = 0,
+  mergedBranches: ReadonlySet<string> = new Set()
+): RetentionCandidate[] => {
+  const candidates: RetentionCandidate[] = [];
+  const protectedCount = snapshots.filter((snapshot) => snapshot.isFavorite || snapshot.isSafetySnapshot).length;
+  let kept = snapshots
+    .filter((snapshot) => !snapshot.isFavorite && !snapshot.isSafetySnapshot)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  const remove = (reason: RetentionReason, shouldDelete: (snapshot: SnapshotMetadata, index: number) => boolean): void => {
+    const next: SnapshotMetadata[] = [];
+    kept.forEach((snapshot, index) => {
+      if (shouldDelete(snapshot, index)) {
+        candidates.push({ snapshot, reason });
+      } else {
+        next.push(snapshot);
+      }
+    });
+    kept = next;
+  };
+
+  const isOlderThan = (snapshot: SnapshotMetadata, days: number) =>
+    days > 0 && snapshot.timestamp.getTime() < now.getTime() - days * 24 * HOUR_MS;
+
+  const matchedRules = new Map<SnapshotMetadata, RetentionRule>();
+  for (const snapshot of kept) {
+    const rule = policy.rules.find((candidate) => matchesRule(candidate, snapshot, mergedBranches));
+    if (rule) {
+      matchedRules.set(snapshot, rule);
+    }
+  }
+  if (matchedRules.size > 0) {
+    remove('rule', (snapshot) => {
+      const rule = matchedRules.get(snapshot);
+      return rule !== undefined && isOlderThan(snapshot, rule.retentionDays);
+    });
+  }
+
+  if (policy.retentionDays > 0) {
+    remove('age', (snapshot) => !matchedRules.has(snapshot) && isOlderThan(snapshot, policy.retentionDays));
+  }
+
+  // 古い段階から順に当てはめ、段階ごと・期間の区切りごとに最初に見つかった（最新の）1件を残す
+  const tiers = policy.tiers
+    .filter((tier) => tier.olderThanHours >= 0 && tier.keepOnePerHours > 0)
+    .sort((a, b) => b.olderThanHours - a.olderThanHours);
+  if (tiers.length > 0) {
+    const seenBuckets = new Set<string>();
+    remove('tier', (snapshot) => {
+      const ageHours = (now.getTime() - snapshot.timestamp.getTime()) / HOUR_MS;
+      const tierIndex = tiers.findIndex((tier) => ageHours >= tier.olderThanHours);
+      if (tierIndex === -1) {
+        return false;
+      }
+      const bucket = `${tierIndex}:${Math.floor(snapshot.timestamp.getTime() / (tiers[tierIndex].keepOnePerHours * HOUR_MS))}`;
+      if (seenBuckets.has(bucket)) {
+        return true;
+      }
+      seenBuckets.add(bucket);
+      return false;
+    });
+  }
+
+  if (policy.maxCount > 0) {
+    remove('count', (_snapshot, index) => index >= policy.maxCount);
+  }
+
+  // スナップショットごとの容量は分からないため、全スナップショットで均等に使っていると見なして見積もる
+  // 共有されたオブジェクトや失われたスナップショットの分だけ見積もりは外れるため、最新の 1 件は必ず残す
+  // (削除した分の容量は、ストレージの圧縮で実際に解放される)
+  if (policy.maxSizeBytes > 0 && storageSize > policy.maxSizeBytes && snapshots.length > 0) {
+    const bytesPerSnapshot = storageSize / snapshots.length;
+    let keepCount = kept.length;
+    while (keepCount > 1 && (keepCount + protectedCount) * bytesPerSnapshot > policy.maxSizeBytes) {
+      keepCount--;
+    }
+    remove('size', (_snapshot, index) => index >= keepCount);
+  }
+
+  return candidates;
+};
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { UnsavedFile, UnsavedFileCollection } from '../types';
+
+// Git ルートからの相対パス（'/' 区切り）。ルートの外なら null
+export const toRelativePath = (gitRoot: string, uri: vscode.Uri): string | null => {
+  const relativePath = path.relative(gitRoot, uri.fsPath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+  return relativePath.split(path.sep).join('/');
+};
+
+// 保存したときと同じバイト列になるよう、ドキュメントのエンコーディングで書き出す
+// workspace.encode の無い古い VS Code では UTF-8 のドキュメントだけを扱い、それ以外は null
+const encodeDocument = async (document: vscode.TextDocument): Promise<Buffer | null> => {
+  const encoding =
+    (document.encoding as string | undefined) ??
+    vscode.workspace.getConfiguration('files', document.uri).get<string>('encoding', 'utf8');
+  if (typeof vscode.workspace.encode !== 'function') {
+    return encoding === 'utf8' ? Buffer.from(document.getText(), 'utf8') : null;
+  }
+  try {
+    return Buffer.from(await vscode.workspace.encode(document.getText(), { encoding }));
+  } catch {
+    return null;
+  }
+};
+
+// 編集中で未保存のファイルの内容（無題のドキュメントやリポジトリ外のファイルは対象外）
+export const collectUnsavedFiles = async (gitRoot: string): Promise<UnsavedFileCollection> => {
+  const unsavedFiles: UnsavedFileCollection = { files: [], skipped: [] };
+  for (const document of vscode.workspace.textDocuments) {
+    if (!document.isDirty || document.isUntitled || document.uri.scheme !== 'file') {
+      continue;
+    }
+    const file = toRelativePath(gitRoot, document.uri);
+    if (!file) {
+      continue;
+    }
+    const content = await encodeDocument(document);
+    if (content) {
+      unsavedFiles.files.push({ file, content });
+    } else {
+      unsavedFiles.skipped.push(file);
+    }
+  }
+  return unsavedFiles;
+};
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WorkspaceService } from '../services/workspaceService';
+import { ShadowGitService } from '../services/shadowGitService';
+
+// ワークスペース内の Git リポジトリと、そのシャドウリポジトリ
+export interface WorkspaceRepository {
+  name: string;
+  gitRoot: string;
+  workspaceService: WorkspaceService;
+  shadowGitService: ShadowGitService;
+}
+
+export interface RepositoryQuickPickItem extends vscode.QuickPickItem {
+  repository: WorkspaceRepository;
+}
+
+// Git ルートごとのシャドウリポジトリ
+// 同じリモートを持つルート（同じリポジトリの worktree や clone）が 1 つのシャドウリポジトリを共有しないよう、
+// リモートから求めた識別子は既存のシャドウリポジトリが参照しているルート（無ければ最初のルート）だけに使い、
+// 他のルートにはパスから求めた識別子を使う
+export const createShadowGitServices = async (
+  roots: { gitRoot: string; remoteUrl: string | null }[]
+): Promise<ShadowGitService[]> => {
+  const services = roots.map(({ gitRoot, remoteUrl }) => new ShadowGitService(remoteUrl, gitRoot));
+  const sharing = new Map<string, number[]>();
+  services.forEach((service, index) => {
+    sharing.set(service.repoIdentifier, [...(sharing.get(service.repoIdentifier) ?? []), index]);
+  });
+
+  for (const indexes of sharing.values()) {
+    if (indexes.length < 2) {
+      continue;
+    }
+    const recordedWorktree = await services[indexes[0]].getRecordedWorktree();
+    const ownerIndex = indexes.find((index) => roots[index].gitRoot === recordedWorktree) ?? indexes[0];
+    for (const index of indexes) {
+      if (index !== ownerIndex) {
+        services[index] = new ShadowGitService(null, roots[index].gitRoot);
+      }
+    }
+  }
+  return services;
+};
+
+// ワークスペースフォルダごとに Git ルートを求める（同じリポジトリ内の複数のフォルダは 1 つにまとめる）
+export const findWorkspaceRepositories = async (): Promise<WorkspaceRepository[]> => {
+  const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+  const gitRoots = await Promise.all(
+    workspaceFolders.map((folder) => new WorkspaceService(folder.uri.fsPath).getGitRoot())
+  );
+  const uniqueGitRoots = [...new Set(gitRoots.filter((gitRoot): gitRoot is string => gitRoot !== null))];
+
+  const roots = await Promise.all(
+    uniqueGitRoots.map(async (gitRoot) => {
+      const workspaceService = new WorkspaceService(gitRoot);
+      return { gitRoot, workspaceService, remoteUrl: await workspaceService.getRemoteOriginUrl() };
+    })
+  );
+  const shadowGitServices = await createShadowGitServices(roots);
+
+  return roots.map(({ gitRoot, workspaceService }, index) => ({
+    name: path.basename(gitRoot),
+    gitRoot,
+    workspaceService,
+    shadowGitService: shadowGitServices[index],
+  }));
+};
+
+// ファイルを含むリポジトリ（入れ子になっている場合は最も内側）
+export const findRepositoryForPath = (
+  repositories: WorkspaceRepository[],
+  fsPath: string
+): WorkspaceRepository | undefined => {
+  return repositories
+    .filter((repository) => {
+      const relativePath = path.relative(repository.gitRoot, fsPath);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    })
+    .sort((a, b) => b.gitRoot.length - a.gitRoot.length)[0];
+};
+
+export const toRepositoryQuickPickItem = (repository: WorkspaceRepository): RepositoryQuickPickItem => ({
+  label: `$(repo) ${repository.name}`,
+  description: repository.gitRoot,
+  repository,
+});
+
+// 開いているフォルダやリポジトリが無い場合はエラーを表示して空を返す
+export const findRepositoriesOrShowError = async (): Promise<WorkspaceRepository[]> => {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder is open.');
+    return [];
+  }
+
+  const repositories = await findWorkspaceRepositories();
+  if (repositories.length === 0) {
+    vscode.window.showErrorMessage('No Git repository found in workspace.');
+  }
+  return repositories;
+};
+
+// リポジトリが複数ある場合だけ選ばせる（見つからない場合はエラーを表示して undefined）
+export const pickWorkspaceRepository = async (placeHolder: string): Promise<WorkspaceRepository | undefined> => {
+  const repositories = await findRepositoriesOrShowError();
+  if (repositories.length <= 1) {
+    return repositories[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(repositories.map(toRepositoryQuickPickItem), { placeHolder });
+  return picked?.repository;
+};
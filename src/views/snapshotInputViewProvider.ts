@@ -35,6 +35,14 @@ export class SnapshotInputViewProvider implements vscode.WebviewViewProvider {
           data.description
         );
         this.clearInput();
+      } else if (data.type === 'saveScopedSnapshot') {
+        await vscode.commands.executeCommand(
+          'work-checkpoints.saveScopedSnapshot',
+          undefined,
+          undefined,
+          data.description
+        );
+        this.clearInput();
       } else if (data.type === 'deleteAll') {
         await vscode.commands.executeCommand('work-checkpoints.deleteAll');
       }
@@ -111,10 +119,12 @@ export class SnapshotInputViewProvider implements vscode.WebviewViewProvider {
     button:active {
       background: var(--vscode-button-background);
     }
+    .secondary-btn,
     .delete-btn {
       background: var(--vscode-button-secondaryBackground);
       color: var(--vscode-button-secondaryForeground);
     }
+    .secondary-btn:hover,
     .delete-btn:hover {
       background: var(--vscode-button-secondaryHoverBackground);
     }
@@ -124,12 +134,14 @@ export class SnapshotInputViewProvider implements vscode.WebviewViewProvider {
   <div class="container">
     <input type="text" id="description" placeholder="Snapshot description (optional)">
     <button id="saveBtn">Save</button>
+    <button id="saveScopedBtn" class="secondary-btn">Save Selected Files…</button>
     ${showDeleteAllButton ? '<button id="deleteAllBtn" class="delete-btn">Delete All</button>' : ''}
   </div>
   <script>
     const vscode = acquireVsCodeApi();
     const input = document.getElementById('description');
     const saveBtn = document.getElementById('saveBtn');
+    const saveScopedBtn = document.getElementById('saveScopedBtn');
     const deleteAllBtn = document.getElementById('deleteAllBtn');
 
     const save = () => {
@@ -141,6 +153,13 @@ export class SnapshotInputViewProvider implements vscode.WebviewViewProvider {
 
     saveBtn.addEventListener('click', save);
 
+    saveScopedBtn.addEventListener('click', () => {
+      vscode.postMessage({
+        type: 'saveScopedSnapshot',
+        description: input.value.trim() || undefined
+      });
+    });
+
     if (deleteAllBtn) {
       deleteAllBtn.addEventListener('click', () => {
         vscode.postMessage({ type: 'deleteAll' });
@@ -3,13 +3,33 @@ import * as path from 'path';
 import { WorkspaceService } from '../services/workspaceService';
 import { ShadowGitService } from '../services/shadowGitService';
 import { SnapshotContentProvider } from '../providers/snapshotContentProvider';
-import { SnapshotMetadata, DiffFileInfo, DiffFileStatus } from '../types';
+import { SnapshotMetadata, SnapshotPage, DiffFileInfo, DiffFileStatus } from '../types';
+import { SNAPSHOT_PAGE_SIZE } from '../utils/constants';
+import { WorkspaceRepository, findWorkspaceRepositories } from '../utils/workspaceRepositories';
+
+// マルチルートのワークスペースで、リポジトリごとにスナップショットをまとめる
+export class RepositoryTreeItem extends vscode.TreeItem {
+  constructor(public readonly repository: WorkspaceRepository) {
+    super(repository.name, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.description = repository.gitRoot;
+    this.tooltip = `Repository: ${repository.gitRoot}`;
+    this.contextValue = 'repository';
+    this.iconPath = new vscode.ThemeIcon('repo');
+  }
+
+  get gitRoot(): string {
+    return this.repository.gitRoot;
+  }
+}
 
+// 以下の項目の gitRoot は、所属するリポジトリ（未指定の場合は最初のリポジトリ）
 export class BranchTreeItem extends vscode.TreeItem {
   constructor(
     public readonly branchName: string,
     public readonly snapshotCount: number,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly gitRoot?: string
   ) {
     const displayName = branchName === 'unknown' ? '(unknown branch)' : branchName;
     super(displayName, collapsibleState);
@@ -25,20 +45,42 @@ export class BranchTreeItem extends vscode.TreeItem {
 export class SnapshotTreeItem extends vscode.TreeItem {
   constructor(
     public readonly snapshot: SnapshotMetadata,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly gitRoot?: string
   ) {
     super(snapshot.description, collapsibleState);
 
     this.tooltip = `${snapshot.fullMessage || snapshot.description}\nBranch: ${snapshot.branchName}\nDate: ${snapshot.timestamp.toLocaleString()}`;
-    this.description = `[${snapshot.branchName}] ${snapshot.id}`;
+    // 部分スナップショットは対象パスの外に触れないことが分かるようにする
+    this.description = `[${snapshot.branchName}] ${snapshot.id}${snapshot.scope ? ' · partial' : ''}`;
     this.contextValue = snapshot.isFavorite ? 'snapshotFavorite' : 'snapshot';
 
     if (snapshot.isFavorite) {
       this.iconPath = new vscode.ThemeIcon('star-full');
+    } else if (snapshot.isSafetySnapshot) {
+      this.iconPath = new vscode.ThemeIcon('shield');
+    } else if (snapshot.scope) {
+      this.iconPath = new vscode.ThemeIcon('filter');
+    } else if (snapshot.trigger) {
+      this.iconPath = new vscode.ThemeIcon('watch');
     }
   }
 }
 
+export class LoadMoreTreeItem extends vscode.TreeItem {
+  constructor(public readonly gitRoot?: string) {
+    super('Load more…', vscode.TreeItemCollapsibleState.None);
+    this.tooltip = 'Load older snapshots';
+    this.contextValue = 'loadMore';
+    this.iconPath = new vscode.ThemeIcon('ellipsis');
+    this.command = {
+      command: 'work-checkpoints.loadMoreSnapshots',
+      title: 'Load More Snapshots',
+      arguments: [gitRoot],
+    };
+  }
+}
+
 const formatDiffStats = (insertions: number, deletions: number): string => {
   const parts: string[] = [];
   if (insertions > 0) {
@@ -56,6 +98,8 @@ const getStatusColor = (status: DiffFileStatus): vscode.ThemeColor => {
       return new vscode.ThemeColor('gitDecoration.addedResourceForeground');
     case 'deleted':
       return new vscode.ThemeColor('gitDecoration.deletedResourceForeground');
+    case 'renamed':
+      return new vscode.ThemeColor('gitDecoration.renamedResourceForeground');
     case 'modified':
     default:
       return new vscode.ThemeColor('gitDecoration.modifiedResourceForeground');
@@ -63,20 +107,30 @@ const getStatusColor = (status: DiffFileStatus): vscode.ThemeColor => {
 };
 
 export class SnapshotFileTreeItem extends vscode.TreeItem {
+  public readonly snapshotFilePath: string;
+
   constructor(
     public readonly filePath: string,
     public readonly snapshotId: string,
     showPath: boolean = true,
-    public readonly diffInfo?: DiffFileInfo
+    public readonly diffInfo?: DiffFileInfo,
+    // 設定されている場合は、このスナップショットとの差分を表示する（ワークスペースとは比較しない）
+    public readonly compareBaseId?: string,
+    public readonly gitRoot?: string
   ) {
     super(path.basename(filePath), vscode.TreeItemCollapsibleState.None);
 
+    // ワークスペースとの比較ではスナップショット側が移動元、スナップショット同士の比較では移動先
+    this.snapshotFilePath = diffInfo?.oldFile && !compareBaseId ? diffInfo.oldFile : filePath;
+
     const dirPath = path.dirname(filePath) !== '.' ? path.dirname(filePath) : '';
     const stats = diffInfo ? formatDiffStats(diffInfo.insertions, diffInfo.deletions) : '';
 
-    // description: パス + 変更行数
+    // description: パス（移動の場合は移動元 → 移動先） + 変更行数
     const descParts: string[] = [];
-    if (showPath && dirPath) {
+    if (diffInfo?.oldFile) {
+      descParts.push(`${diffInfo.oldFile} → ${filePath}`);
+    } else if (showPath && dirPath) {
       descParts.push(dirPath);
     }
     if (stats) {
@@ -84,7 +138,8 @@ export class SnapshotFileTreeItem extends vscode.TreeItem {
     }
     this.description = descParts.join('  ');
 
-    this.tooltip = `${filePath}${stats ? `\n${stats}` : ''}`;
+    const pathLabel = diffInfo?.oldFile ? `${diffInfo.oldFile} → ${filePath}` : filePath;
+    this.tooltip = `${pathLabel}${stats ? `\n${stats}` : ''}`;
     this.contextValue = 'snapshotFile';
 
     // ステータスに応じた色付きアイコン
@@ -107,7 +162,9 @@ export class SnapshotFolderTreeItem extends vscode.TreeItem {
     public readonly folderPath: string,
     public readonly snapshotId: string,
     public readonly childPaths: string[],
-    public readonly childDiffFiles: DiffFileInfo[]
+    public readonly childDiffFiles: DiffFileInfo[],
+    public readonly compareBaseId?: string,
+    public readonly gitRoot?: string
   ) {
     super(path.basename(folderPath), vscode.TreeItemCollapsibleState.Expanded);
     this.tooltip = folderPath;
@@ -116,12 +173,20 @@ export class SnapshotFolderTreeItem extends vscode.TreeItem {
   }
 }
 
-type TreeItem = BranchTreeItem | SnapshotTreeItem | SnapshotFolderTreeItem | SnapshotFileTreeItem;
+type TreeItem =
+  | RepositoryTreeItem
+  | BranchTreeItem
+  | SnapshotTreeItem
+  | SnapshotFolderTreeItem
+  | SnapshotFileTreeItem
+  | LoadMoreTreeItem;
 
 const buildTreeItems = (
   diffFiles: DiffFileInfo[],
   snapshotId: string,
-  parentPath: string = ''
+  parentPath: string = '',
+  compareBaseId?: string,
+  gitRoot?: string
 ): TreeItem[] => {
   const items: TreeItem[] = [];
   const folders = new Map<string, DiffFileInfo[]>();
@@ -144,11 +209,13 @@ const buildTreeItems = (
   }
 
   for (const [folderPath, childFiles] of folders) {
-    items.push(new SnapshotFolderTreeItem(folderPath, snapshotId, childFiles.map((f) => f.file), childFiles));
+    items.push(
+      new SnapshotFolderTreeItem(folderPath, snapshotId, childFiles.map((f) => f.file), childFiles, compareBaseId, gitRoot)
+    );
   }
 
   for (const diffFile of files) {
-    items.push(new SnapshotFileTreeItem(diffFile.file, snapshotId, false, diffFile));
+    items.push(new SnapshotFileTreeItem(diffFile.file, snapshotId, false, diffFile, compareBaseId, gitRoot));
   }
 
   return items;
@@ -158,11 +225,15 @@ export class SnapshotTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private shadowGitService: ShadowGitService | null = null;
-  private workspaceService: WorkspaceService | null = null;
+  // Git ルートごとのリポジトリ（ワークスペースフォルダの順）
+  private repositories: WorkspaceRepository[] = [];
   private treeViewMode: boolean = true;
   private groupByBranch: boolean = false;
   private showClaudeSnapshots: boolean = true;
+  private showSnapshotChanges: boolean = false;
+  // 読み込み済みの件数とページはリポジトリごとに持つ
+  private snapshotLimits = new Map<string, number>();
+  private loadedPages = new Map<string, SnapshotPage>();
 
   constructor(private readonly snapshotContentProvider: SnapshotContentProvider) {
     this.initializeServices();
@@ -195,26 +266,27 @@ export class SnapshotTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     return this.showClaudeSnapshots;
   }
 
-  private async initializeServices(): Promise<void> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return;
-    }
+  setShowSnapshotChanges(value: boolean): void {
+    this.showSnapshotChanges = value;
+    this._onDidChangeTreeData.fire();
+  }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
-    let workspaceService = new WorkspaceService(workspacePath);
+  isShowingSnapshotChanges(): boolean {
+    return this.showSnapshotChanges;
+  }
 
-    const gitRoot = await workspaceService.getGitRoot();
-    if (!gitRoot) {
-      return;
+  loadMore(gitRoot?: string): void {
+    const repository = this.getRepository(gitRoot);
+    if (repository) {
+      this.snapshotLimits.set(repository.gitRoot, this.getSnapshotLimit(repository) + SNAPSHOT_PAGE_SIZE);
     }
+    this._onDidChangeTreeData.fire();
+  }
 
-    workspaceService = new WorkspaceService(gitRoot);
-    this.workspaceService = workspaceService;
-
-    const remoteUrl = await workspaceService.getRemoteOriginUrl();
-    this.shadowGitService = new ShadowGitService(remoteUrl, gitRoot);
-    this.snapshotContentProvider.setShadowGitService(this.shadowGitService);
+  private async initializeServices(): Promise<void> {
+    this.repositories = await findWorkspaceRepositories();
+    this.snapshotContentProvider.setShadowGitServices(this.repositories.map((repository) => repository.shadowGitService));
+    vscode.commands.executeCommand('setContext', 'workCheckpoints.multipleRepositories', this.repositories.length > 1);
   }
 
   refresh(): void {
@@ -228,62 +300,118 @@ export class SnapshotTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   }
 
   async getChildren(element?: TreeItem): Promise<TreeItem[]> {
-    if (!this.shadowGitService) {
+    if (this.repositories.length === 0) {
       await this.initializeServices();
     }
 
-    if (!this.shadowGitService) {
+    if (this.repositories.length === 0) {
       return [];
     }
 
     try {
+      // リポジトリが複数ある場合だけ、最上位にリポジトリを並べる
+      if (!element && this.repositories.length > 1) {
+        return this.repositories.map((repository) => new RepositoryTreeItem(repository));
+      }
+
+      const repository = this.getRepository(element?.gitRoot);
+      if (!repository) {
+        return [];
+      }
+      const { gitRoot } = repository;
+
       // ブランチの子要素（ブランチグループモード時）
       if (element instanceof BranchTreeItem) {
-        const snapshots = await this.shadowGitService.listSnapshots();
-        return snapshots
+        const page = this.loadedPages.get(gitRoot) ?? (await this.loadSnapshotPage(repository));
+        return page.snapshots
           .filter((s) => s.branchName === element.branchName)
-          .filter((s) => this.showClaudeSnapshots || !s.isClaudeCreated)
-          .map((snapshot) => new SnapshotTreeItem(snapshot, vscode.TreeItemCollapsibleState.Collapsed));
+          .map((snapshot) => new SnapshotTreeItem(snapshot, vscode.TreeItemCollapsibleState.Collapsed, gitRoot));
       }
 
       // スナップショットの子要素
+      // 変更表示モードでは直前のスナップショットとの差分、それ以外は現在のワークスペースとの差分
       if (element instanceof SnapshotTreeItem) {
-        const diffFiles = await this.shadowGitService.getSnapshotDiffFiles(element.snapshot.id);
+        const snapshotId = element.snapshot.id;
+        const { diffFiles, compareBaseId } = await this.getSnapshotChanges(element.snapshot, gitRoot);
 
         if (this.treeViewMode) {
-          return buildTreeItems(diffFiles, element.snapshot.id);
+          return buildTreeItems(diffFiles, snapshotId, '', compareBaseId, gitRoot);
         } else {
           return diffFiles.map(
-            (diffFile) => new SnapshotFileTreeItem(diffFile.file, element.snapshot.id, true, diffFile)
+            (diffFile) => new SnapshotFileTreeItem(diffFile.file, snapshotId, true, diffFile, compareBaseId, gitRoot)
           );
         }
       }
 
       // フォルダの子要素（ツリーモード時のみ）
       if (element instanceof SnapshotFolderTreeItem) {
-        return buildTreeItems(element.childDiffFiles, element.snapshotId, element.folderPath);
+        return buildTreeItems(
+          element.childDiffFiles,
+          element.snapshotId,
+          element.folderPath,
+          element.compareBaseId,
+          gitRoot
+        );
       }
 
-      // ルートレベル
-      let snapshots = await this.shadowGitService.listSnapshots();
-
-      // Claudeスナップショットのフィルタリング
-      if (!this.showClaudeSnapshots) {
-        snapshots = snapshots.filter((s) => !s.isClaudeCreated);
+      if (element instanceof LoadMoreTreeItem || element instanceof SnapshotFileTreeItem) {
+        return [];
       }
 
+      // リポジトリのルートレベル（読み込み済みの件数分だけ取得）
+      const page = await this.loadSnapshotPage(repository);
+      const loadMoreItems = page.nextCursor !== null ? [new LoadMoreTreeItem(gitRoot)] : [];
+
       if (this.groupByBranch) {
-        return this.buildBranchGroups(snapshots);
+        return [...this.buildBranchGroups(page.snapshots, gitRoot), ...loadMoreItems];
       }
 
       // フラットリスト（既存の動作）
-      return snapshots.map((snapshot) => new SnapshotTreeItem(snapshot, vscode.TreeItemCollapsibleState.Collapsed));
+      return [
+        ...page.snapshots.map(
+          (snapshot) => new SnapshotTreeItem(snapshot, vscode.TreeItemCollapsibleState.Collapsed, gitRoot)
+        ),
+        ...loadMoreItems,
+      ];
     } catch {
       return [];
     }
   }
 
-  private buildBranchGroups(snapshots: SnapshotMetadata[]): BranchTreeItem[] {
+  // 現在の表示モードに応じたスナップショットの差分（compareBaseId が無ければワークスペースとの差分）
+  // 部分スナップショットのワークスペースとの差分は、復元で戻る対象パスの中だけを表示する
+  async getSnapshotChanges(
+    snapshot: SnapshotMetadata,
+    gitRoot?: string
+  ): Promise<{ diffFiles: DiffFileInfo[]; compareBaseId?: string }> {
+    const shadowGitService = this.getShadowGitService(gitRoot);
+    if (!shadowGitService) {
+      return { diffFiles: [] };
+    }
+
+    if (!this.showSnapshotChanges) {
+      return { diffFiles: await shadowGitService.getSnapshotDiffFiles(snapshot.id, snapshot.scope) };
+    }
+
+    const compareBaseId = await shadowGitService.getPreviousSnapshotId(snapshot.id);
+    return { diffFiles: await shadowGitService.compareSnapshots(compareBaseId, snapshot.id), compareBaseId };
+  }
+
+  private getSnapshotLimit(repository: WorkspaceRepository): number {
+    return this.snapshotLimits.get(repository.gitRoot) ?? SNAPSHOT_PAGE_SIZE;
+  }
+
+  private async loadSnapshotPage(repository: WorkspaceRepository): Promise<SnapshotPage> {
+    // Claudeスナップショットのフィルタリング
+    const page = await repository.shadowGitService.listSnapshotPage({
+      limit: this.getSnapshotLimit(repository),
+      filter: (s) => this.showClaudeSnapshots || !s.isClaudeCreated,
+    });
+    this.loadedPages.set(repository.gitRoot, page);
+    return page;
+  }
+
+  private buildBranchGroups(snapshots: SnapshotMetadata[], gitRoot: string): BranchTreeItem[] {
     // ブランチごとにスナップショットをグループ化
     const branchMap = new Map<string, SnapshotMetadata[]>();
 
@@ -312,14 +440,28 @@ export class SnapshotTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         return b.mostRecent - a.mostRecent;
       });
 
-    return branches.map((b) => new BranchTreeItem(b.branchName, b.count, vscode.TreeItemCollapsibleState.Collapsed));
+    return branches.map(
+      (b) => new BranchTreeItem(b.branchName, b.count, vscode.TreeItemCollapsibleState.Collapsed, gitRoot)
+    );
+  }
+
+  getRepositories(): WorkspaceRepository[] {
+    return this.repositories;
+  }
+
+  // gitRoot を省略した場合は最初のリポジトリ
+  getRepository(gitRoot?: string): WorkspaceRepository | null {
+    const repository = gitRoot
+      ? this.repositories.find((candidate) => candidate.gitRoot === gitRoot)
+      : this.repositories[0];
+    return repository ?? null;
   }
 
-  getShadowGitService(): ShadowGitService | null {
-    return this.shadowGitService;
+  getShadowGitService(gitRoot?: string): ShadowGitService | null {
+    return this.getRepository(gitRoot)?.shadowGitService ?? null;
   }
 
-  getWorkspaceService(): WorkspaceService | null {
-    return this.workspaceService;
+  getWorkspaceService(gitRoot?: string): WorkspaceService | null {
+    return this.getRepository(gitRoot)?.workspaceService ?? null;
   }
 }